@@ -9,6 +9,10 @@ figma.skipInvisibleInstanceChildren = true;
 
 // Keys for persistent storage
 const LAST_QUERY_KEY = 'lastQuery';
+const SAVED_QUERIES_KEY = 'savedQueries';
+// Team queries live in the document, so everyone who opens the file shares them
+const TEAM_NAMESPACE = 'select_nested_layers';
+const TEAM_QUERIES_KEY = 'teamQueries';
 let cachedLastQuery: string | null = null;
 const lastQueryLoad = (async () => {
   try {
@@ -17,15 +21,77 @@ const lastQueryLoad = (async () => {
   } catch {}
 })();
 
+/**
+ * A named query, run from the saved-query panel or inline as ":name".
+ */
+interface SavedQuery {
+  name: string;
+  query: string;
+}
+
+/**
+ * A saved query shared through the document. `revision` goes up with every change, so an
+ * edit or delete based on an older copy is caught instead of overwriting someone's work.
+ */
+interface TeamQuery extends SavedQuery {
+  revision: number;
+  updatedAt: number;
+}
+
+let savedQueries: SavedQuery[] = [];
+const savedQueriesLoad = (async () => {
+  try {
+    const v = await figma.clientStorage.getAsync(SAVED_QUERIES_KEY);
+    if (Array.isArray(v)) {
+      savedQueries = v.filter((q: SavedQuery) => q && typeof q.name === 'string' && typeof q.query === 'string');
+    }
+  } catch {
+    // Unreadable storage starts an empty library
+  }
+})();
+
 // Global search state flags
 let STOP_ON_FIRST = false;  // Stop at first match (--f modifier)
 let FOUND_ONE = false;      // Track if a match was found
 let SEARCH_CANCELLED = false; // Allow cancelling long searches
+let DEPTH_BOUND: DepthBound | null = null; // Depth limit for the part being searched (/{1,3}/ or --d3)
+let FUZZY = false;          // Typo-tolerant name matching (--z modifier)
+let WHOLE_WORD = false;     // Unquoted tokens match whole words only (--w modifier)
+let CASE_SENSITIVE = false; // Unquoted tokens keep their case (--c modifier)
+let NORMALIZE = false;      // Fold case, accents and separators in names (--n modifier)
+
+/**
+ * Cache-key suffix for the modifiers that change how names match.
+ */
+function nameRulesKey(): string {
+  return `${FUZZY ? ' --z' : ''}${WHOLE_WORD ? ' --w' : ''}${CASE_SENSITIVE ? ' --c' : ''}${NORMALIZE ? ' --n' : ''}`;
+}
 
 // Performance optimization: cache search results for heavy files
 const searchCache = new Map<string, SearchResult[]>();
 const nodeCache = new Map<string, SceneNode[]>();
 const nameMatcherCache = new Map<string, (name: string) => boolean>();
+const nameScorerCache = new Map<string, (name: string) => number>();
+const nodeMatcherCache = new Map<string, (n: SceneNode) => boolean>();
+const nodeScorerCache = new Map<string, (n: SceneNode) => number>();
+const mainComponentCache = new Map<string, MainComponentInfo | null>();
+const hasMatchCache = new Map<string, boolean>();
+const styleNameCache = new Map<string, string | null>();
+const variableNameCache = new Map<string, string | null>();
+
+/**
+ * Clears the caches that only hold for one search: matchers, main components, :has()
+ * results and style and variable names.
+ */
+function clearSearchCaches(): void {
+  nameScorerCache.clear();
+  nodeMatcherCache.clear();
+  nodeScorerCache.clear();
+  mainComponentCache.clear();
+  hasMatchCache.clear();
+  styleNameCache.clear();
+  variableNameCache.clear();
+}
 
 // Cooperative yielding to keep UI responsive during heavy searches.
 // We explicitly yield inside long loops and large batches to allow the cancel button
@@ -40,11 +106,27 @@ function getYieldEvery(modifiers?: SearchModifiers): number {
   return (modifiers?.hiddenOnly || modifiers?.allLayers) ? 50 : YIELD_INTERVAL;
 }
 
+// Node types collected through findAllWithCriteria for the search types that have a pool
+const POOL_TYPES: { [searchType: string]: string[] } = {
+  SECTION: ['SECTION'],
+  FRAME: ['FRAME', 'GROUP'],
+  INSTANCE: ['INSTANCE'],
+  COMPONENT: ['COMPONENT', 'COMPONENT_SET'],
+  GROUP: ['GROUP'],
+  AUTO_LAYOUT: ['FRAME'],
+  VECTOR: ['VECTOR'],
+  BOOLEAN: ['BOOLEAN_OPERATION']
+};
+
 function getCachedTypePool(
   parent: PageNode | SectionNode | FrameNode | InstanceNode | ComponentNode | ComponentSetNode,
   types: string[],
   fastMode: boolean
 ): readonly SceneNode[] {
+  // Depth-bounded pools are small and part-specific, so they are not cached either
+  if (DEPTH_BOUND) {
+    return findAllWithinDepth(parent, n => types.indexOf(n.type) !== -1 && (!fastMode || isEffectivelyVisible(n)));
+  }
   // Do not cache the heavy "all" traversal pools (flags mode) to avoid memory bloat and slowdowns
   let pool = (parent as any).findAllWithCriteria({ types }) as readonly SceneNode[];
   // In fast mode, prune hidden nodes (including those under hidden ancestors)
@@ -71,14 +153,11 @@ function findMatchingDeep(
   nameQuery: string,
   includeHidden: boolean = false
 ): readonly SceneNode[] {
-  const gate = gateFor(type);
-  const nameMatches = buildNameMatcher(nameQuery);
-  return (root as any).findAll((n: SceneNode) => {
+  const nodeMatches = buildNodeMatcher(type, nameQuery);
+  return findAllWithinDepth(root as BaseNode & ChildrenMixin, (n: SceneNode) => {
     if (!includeHidden && !isEffectivelyVisible(n)) return false;
-    if (type === 'SHAPE' && gateImage(n)) return false;
-    if (type === 'IMAGE' && !gateImage(n)) return false;
-    return gate(n) && nameMatches(n.name || '');
-  }) as readonly SceneNode[];
+    return nodeMatches(n);
+  });
 }
 
 // Checks effective visibility by walking up ancestors (true only if all are visible)
@@ -102,6 +181,9 @@ function symbolFor(n: BaseNode): string {
   if (n.type === 'FRAME') return '@';
   if (n.type === 'INSTANCE') return '!';
   if (n.type === 'COMPONENT' || n.type === 'COMPONENT_SET') return '?';
+  if (n.type === 'GROUP') return '@:group ';
+  if (n.type === 'VECTOR') return '%:vector ';
+  if (n.type === 'BOOLEAN_OPERATION') return '%:bool ';
   // IMAGE/SHAPE/TEXT are derived, not node types; symbols set when pushing results.
   return '';
 }
@@ -161,159 +243,1233 @@ interface SearchModifiers {
   // Index modifiers are parsed inline per part; globals are no longer parsed here
   indexPick?: number | null;
   indexPickEach?: number | null;
+  maxDepth?: number | null;
+  fuzzy?: boolean;
+  wholeWord?: boolean;
+  caseSensitive?: boolean;
+  normalize?: boolean;
+  allPages?: boolean;
+  order?: ResultOrder | null;
+}
+
+/**
+ * Orders for index picks and results other than the default reading order (rows top to
+ * bottom, left to right): right-to-left rows, columns, layers panel order, natural name
+ * order and largest area first.
+ */
+type ResultOrder = 'rtl' | 'column' | 'layers' | 'name' | 'area';
+const RESULT_ORDERS: ResultOrder[] = ['rtl', 'column', 'layers', 'name', 'area'];
+
+/**
+ * How many levels below a scope a "/" step may match: direct children are level 1.
+ */
+type DepthBound = { min: number; max: number };
+
+/**
+ * Parses a depth separator segment: {3} (exactly 3 levels down), {1,3}, {,3} or {2,}.
+ * Throws when the levels are out of order or start below 1.
+ * @returns The bound, or null when the segment is not a depth separator
+ */
+function parseDepthBound(segment: string): DepthBound | null {
+  const m = segment.trim().match(/^\{\s*(\d*)\s*(?:(,)\s*(\d*))?\s*\}$/);
+  if (!m || (m[1] === '' && (m[3] === undefined || m[3] === ''))) return null;
+  const min = m[1] === '' ? 1 : parseInt(m[1], 10);
+  const max = m[2] ? (m[3] ? parseInt(m[3], 10) : Infinity) : min;
+  if (min < 1 || max < min) throw new Error(`Invalid depth ${segment.trim()}: levels start at 1 and the maximum cannot be below the minimum`);
+  return { min, max };
+}
+
+/**
+ * Collects the nodes under `root` that pass `predicate`, honouring DEPTH_BOUND: levels
+ * beyond the bound are never visited, and levels above its minimum are only descended.
+ * Without a bound this is the native findAll.
+ */
+function findAllWithinDepth(root: ChildrenMixin, predicate: (n: SceneNode) => boolean): SceneNode[] {
+  const bound = DEPTH_BOUND;
+  if (!bound) return root.findAll(predicate);
+  const out: SceneNode[] = [];
+  const stack: { node: SceneNode; depth: number }[] = [];
+  const pushChildren = (parent: BaseNode | ChildrenMixin, depth: number) => {
+    if (depth > bound.max || !('children' in parent)) return;
+    const kids = (parent as ChildrenMixin).children;
+    for (let i = kids.length - 1; i >= 0; i--) stack.push({ node: kids[i], depth });
+  };
+  pushChildren(root, 1);
+  while (stack.length) {
+    const { node, depth } = stack.pop()!;
+    if (depth >= bound.min && predicate(node)) out.push(node);
+    pushChildren(node, depth + 1);
+  }
+  return out;
+}
+
+/**
+ * A query error that points at the characters that caused it: offsets into the query as
+ * typed (end exclusive), so the UI can underline them.
+ */
+interface QuerySyntaxError extends Error {
+  start: number;
+  end: number;
+}
+
+function syntaxError(message: string, start: number, end: number): QuerySyntaxError {
+  return Object.assign(new Error(message), { start, end: Math.max(end, start + 1) });
+}
+
+function isSyntaxError(e: unknown): e is QuerySyntaxError {
+  return e instanceof Error && typeof (e as Partial<QuerySyntaxError>).start === 'number';
+}
+
+// Saved query names: letters, digits, "_" and "-" ("has" is taken by :has())
+const SAVED_QUERY_NAME = /^[\w-]+$/;
+
+/**
+ * Finds a query by name in a library, ignoring case.
+ */
+function findByName<T extends SavedQuery>(list: T[], name: string): T | undefined {
+  const lower = name.toLowerCase();
+  return list.find(q => q.name.toLowerCase() === lower);
+}
+
+// A team library being validated before it is written to the document, if any
+let teamQueriesDraft: TeamQuery[] | null = null;
+
+/**
+ * Resolves a ":name" alias: personal saved queries first, then the team library.
+ */
+function findSavedQuery(name: string): SavedQuery | undefined {
+  return findByName(savedQueries, name) || findByName(teamQueriesDraft || readTeamQueries(), name);
+}
+
+/**
+ * Checks a saved query name (already stripped of its leading ":").
+ * @returns An error message, or null when the name can be used
+ */
+function checkSavedQueryName(name: string): string | null {
+  if (!SAVED_QUERY_NAME.test(name) || name.toLowerCase() === 'has') {
+    return 'Names can only use letters, digits, "_" and "-" (and can\'t be "has")';
+  }
+  return null;
+}
+
+/**
+ * Reads the team library from the document. It is read fresh every time because
+ * collaborators may have changed it since the plugin started.
+ */
+function readTeamQueries(): TeamQuery[] {
+  try {
+    const raw = figma.root.getSharedPluginData(TEAM_NAMESPACE, TEAM_QUERIES_KEY);
+    const v = raw ? JSON.parse(raw) : [];
+    return Array.isArray(v)
+      ? v.filter((q: TeamQuery) => q && typeof q.name === 'string' && typeof q.query === 'string' && typeof q.revision === 'number')
+      : [];
+  } catch {
+    return []; // unreadable data counts as an empty library
+  }
+}
+
+function writeTeamQueries(list: TeamQuery[]): void {
+  figma.root.setSharedPluginData(TEAM_NAMESPACE, TEAM_QUERIES_KEY, JSON.stringify(list));
+}
+
+/**
+ * What the UI needs to resolve a conflicting team edit: the entry's current revision, or
+ * null when it no longer exists.
+ */
+type TeamConflict = { name: string; revision: number | null };
+
+/**
+ * Whether a query parses and passes the checks a search makes before it runs.
+ */
+function isRunnableQuery(query: string): boolean {
+  try {
+    validateOperands(parseQuery(query), query);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The other saved queries that run now but would stop running with `next` as the library,
+ * because they use a name that is being renamed or removed.
+ */
+function savedQueriesBrokenBy(next: SavedQuery[]): SavedQuery[] {
+  const current = savedQueries;
+  const working = current.filter(q => next.indexOf(q) !== -1 && isRunnableQuery(q.query));
+  savedQueries = next;
+  try {
+    return working.filter(q => !isRunnableQuery(q.query));
+  } finally {
+    savedQueries = current;
+  }
+}
+
+function usedByMessage(action: string, name: string, users: SavedQuery[]): string {
+  return `Can't ${action} :${name} because ${users.map(q => `:${q.name}`).join(', ')} ${users.length === 1 ? 'uses' : 'use'} it`;
+}
+
+/**
+ * Creates, updates or renames a saved query and persists the library. Renaming keeps the
+ * query's place in the list, and is refused while other saved queries use the old name.
+ * @param previousName - The name being renamed, if any
+ * @returns An error message, or null when the library was saved
+ */
+async function saveQuery(name: string, query: string, previousName?: string): Promise<string | null> {
+  name = name.trim().replace(/^:/, '');
+  query = query.trim();
+  const nameError = checkSavedQueryName(name);
+  if (nameError) return nameError;
+  if (!query) return 'Enter a query to save';
+  const existing = findByName(savedQueries, name);
+  const renamed = previousName ? findByName(savedQueries, previousName) : undefined;
+  if (renamed && existing && existing !== renamed) return `A saved query named :${existing.name} already exists`;
+
+  const previous = savedQueries;
+  const entry = { name, query };
+  const target = renamed || existing;
+  const next = target ? savedQueries.map(q => (q === target ? entry : q)) : savedQueries.concat(entry);
+  const users = renamed ? savedQueriesBrokenBy(next) : [];
+  if (renamed && users.length) return usedByMessage('rename', renamed.name, users);
+  savedQueries = next;
+  try {
+    validateOperands(parseQuery(query), query); // parsing also catches aliases that use themselves
+  } catch (e) {
+    savedQueries = previous;
+    return e instanceof Error ? e.message : String(e);
+  }
+  await figma.clientStorage.setAsync(SAVED_QUERIES_KEY, savedQueries);
+  return null;
+}
+
+/**
+ * Removes a saved query and persists the library, unless other saved queries use it.
+ * @returns An error message, or null when the query was removed
+ */
+async function deleteSavedQuery(name: string): Promise<string | null> {
+  const target = findByName(savedQueries, name);
+  if (!target) return null;
+  const next = savedQueries.filter(q => q !== target);
+  const users = savedQueriesBrokenBy(next);
+  if (users.length) return usedByMessage('delete', target.name, users);
+  savedQueries = next;
+  await figma.clientStorage.setAsync(SAVED_QUERIES_KEY, savedQueries);
+  return null;
+}
+
+/**
+ * Creates, updates or renames a team query in the document. Edits name the revision they
+ * started from; when a collaborator changed or removed the entry in the meantime nothing is
+ * written and the conflict is returned, so the UI can show the current version and let the
+ * user save again on top of it.
+ * @param previousName - The name being edited or renamed, if any
+ * @param baseRevision - The revision the edit started from
+ */
+function saveTeamQuery(
+  name: string,
+  query: string,
+  previousName?: string,
+  baseRevision?: number
+): { error: string | null; conflict?: TeamConflict } {
+  name = name.trim().replace(/^:/, '');
+  query = query.trim();
+  const nameError = checkSavedQueryName(name);
+  if (nameError) return { error: nameError };
+  if (!query) return { error: 'Enter a query to save' };
+
+  const list = readTeamQueries();
+  const existing = findByName(list, name);
+  if (previousName) {
+    const edited = findByName(list, previousName);
+    if (!edited) {
+      return {
+        error: `Someone else deleted or renamed the team query :${previousName}. Save again to add yours.`,
+        conflict: { name: previousName, revision: null },
+      };
+    }
+    if (edited.revision !== baseRevision) {
+      return {
+        error: `Someone else changed :${edited.name} to "${edited.query}" since you opened it. Save again to replace it with yours.`,
+        conflict: { name: edited.name, revision: edited.revision },
+      };
+    }
+    if (existing && existing !== edited) return { error: `A team query named :${existing.name} already exists` };
+  } else if (existing) {
+    return { error: `A team query named :${existing.name} already exists. Edit it to change it.` };
+  }
+
+  const target = previousName ? findByName(list, previousName) : undefined;
+  const entry: TeamQuery = { name, query, revision: (target ? target.revision : 0) + 1, updatedAt: Date.now() };
+  const next = target ? list.map(q => (q === target ? entry : q)) : list.concat(entry);
+  teamQueriesDraft = next; // validate against the new list without touching the document
+  try {
+    validateOperands(parseQuery(query), query); // parsing also catches aliases that use themselves
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  } finally {
+    teamQueriesDraft = null;
+  }
+  writeTeamQueries(next);
+  return { error: null };
+}
+
+/**
+ * Removes a team query from the document, unless a collaborator changed it after the
+ * user last saw it.
+ * @param baseRevision - The revision the user was looking at
+ */
+function deleteTeamQuery(name: string, baseRevision?: number): { error: string | null; conflict?: TeamConflict } {
+  const list = readTeamQueries();
+  const target = findByName(list, name);
+  if (!target) return { error: null };
+  if (target.revision !== baseRevision) {
+    return {
+      error: `Someone else changed :${target.name} to "${target.query}". Delete it again to remove it anyway.`,
+      conflict: { name: target.name, revision: target.revision },
+    };
+  }
+  writeTeamQueries(list.filter(q => q !== target));
+  return { error: null };
+}
+
+/**
+ * Lexical tokens of a query. Text tokens keep quoted literals, regex literals, {...} and
+ * [...] filters and :has(...) groups whole, so nothing inside them is read as a separator,
+ * an operator or a modifier.
+ */
+type QueryTokenKind = 'text' | 'space' | 'slash' | 'combinator' | 'operator' | 'modifier';
+
+interface QueryToken {
+  kind: QueryTokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits a query into tokens: "/" and "//" separators, sibling combinators (" + ", " ~ ",
+ * " - " before a type symbol or quote), set operators ("," "&&" and "\" as words of
+ * their own, so names like "Label, Large" keep their comma), "--" modifiers at the start
+ * of a word, and text. An escaped "\/" is text, so a name can contain a slash.
+ * A ":name" that starts a step or follows a "|" is replaced by the tokens of that saved
+ * query, all positioned on the alias so errors inside it underline the alias.
+ * A regex literal is recognized where a name token starts: right after a type symbol
+ * (@/^Card/), after whitespace (@Card /-dark$/), after a pipe or an exclusion dash.
+ * Throws a QuerySyntaxError for an unclosed quote or :has( group, or an unknown or
+ * self-referencing alias.
+ * @param offset - Added to every position (for subqueries inside a larger query)
+ * @param expanding - Saved queries being expanded, to catch aliases that use themselves
+ */
+function scanQuery(query: string, offset: number = 0, expanding: string[] = []): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let segment = ''; // text since the last separator, to recognize regex literals
+
+  const push = (kind: QueryTokenKind, start: number, end: number) => {
+    const text = query.substring(start, end);
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind && (kind === 'text' || kind === 'space')) {
+      last.text += text;
+      last.end = end + offset;
+    } else {
+      tokens.push({ kind, text, start: start + offset, end: end + offset });
+    }
+    segment = kind === 'slash' || kind === 'operator' ? '' : segment + text;
+  };
+
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    if (/\s/.test(ch)) {
+      let end = i + 1;
+      while (end < query.length && /\s/.test(query[end])) end++;
+      push('space', i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '"') {
+      const close = query.indexOf('"', i + 1);
+      if (close === -1) throw syntaxError('Unclosed quote', i + offset, query.length + offset);
+      push('text', i, close + 1);
+      i = close + 1;
+      continue;
+    }
+    if (ch === '{' || ch === '[') {
+      const close = ch === '{' ? findBraceGroupEnd(query, i) : query.indexOf(']', i);
+      if (close !== -1) {
+        push('text', i, close + 1);
+        i = close + 1;
+        continue;
+      }
+    }
+    if (ch === ':' && query.startsWith(':has(', i)) {
+      const close = findHasGroupEnd(query, i);
+      if (close === -1) throw syntaxError('Unclosed :has( group', i + offset, i + 5 + offset);
+      push('text', i, close + 1);
+      i = close + 1;
+      continue;
+    }
+    // Aliases start a step or an alternative; elsewhere ":word" is part of a name ("=Time :30")
+    const previous = ch === ':' ? tokens.filter(t => t.kind !== 'space').pop() : undefined;
+    const aliasStart = ch === ':' && (query[i - 1] === '|' ||
+      (i === 0 || /[\s/]/.test(query[i - 1])) && (!previous || previous.kind === 'slash' || previous.kind === 'combinator' || previous.kind === 'operator'));
+    const alias = aliasStart ? query.substring(i + 1).match(/^[\w-]+/) : null;
+    if (alias) {
+      const end = i + 1 + alias[0].length;
+      const saved = findSavedQuery(alias[0]);
+      if (!saved) throw syntaxError(`Unknown saved query :${alias[0]}`, i + offset, end + offset);
+      const key = saved.name.toLowerCase();
+      if (expanding.indexOf(key) !== -1) throw syntaxError(`Saved query :${saved.name} uses itself`, i + offset, end + offset);
+      let inner: QueryToken[];
+      try {
+        inner = scanQuery(saved.query, 0, expanding.concat(key));
+      } catch (e) {
+        if (!isSyntaxError(e)) throw e;
+        throw syntaxError(`In saved query :${saved.name}: ${e.message}`, i + offset, end + offset);
+      }
+      for (const token of inner) tokens.push({ ...token, start: i + offset, end: end + offset });
+      segment += saved.query;
+      i = end;
+      continue;
+    }
+    if (ch === '\\' && query[i + 1] === '/') {
+      push('text', i, i + 2); // an escaped slash is part of the name
+      i += 2;
+      continue;
+    }
+    if (ch === '/') {
+      const atTokenStart = segment.trim().length > 0 &&
+        /(?:^\s*[#$@&%=!?]|\s|\|[#$@&%=!?]?)-?$/.test(segment);
+      const lit = atTokenStart ? readRegexLiteral(query, i) : null;
+      const end = lit ? lit.end : query[i + 1] === '/' ? i + 2 : i + 1;
+      push(lit ? 'text' : 'slash', i, end);
+      i = end;
+      continue;
+    }
+    const wordStart = i === 0 || /[\s/]/.test(query[i - 1]);
+    const operator = ch === ',' ? ',' : query.startsWith('&&', i) ? '&&' : ch === '\\' ? '\\' : null;
+    if (operator &&
+      (i === 0 || /\s/.test(query[i - 1])) && (i + operator.length === query.length || /\s/.test(query[i + operator.length]))) {
+      push('operator', i, i + operator.length);
+      i += operator.length;
+      continue;
+    }
+    if (ch === '-' && query[i + 1] === '-' && wordStart && /[\w[.]/.test(query[i + 2] || '')) {
+      let end = i + 2;
+      while (end < query.length && !/[\s/]/.test(query[end])) end++;
+      push('modifier', i, end);
+      i = end;
+      continue;
+    }
+    if ((ch === '+' || ch === '~' || ch === '-') && (i === 0 || /\s/.test(query[i - 1]))) {
+      const rest = query.substring(i + 1);
+      if ((rest === '' || /^\s/.test(rest)) && (ch !== '-' || /^\s*[#$@&%=!?"]/.test(rest))) {
+        push('combinator', i, i + 1);
+        i++;
+        continue;
+      }
+    }
+    push('text', i, i + 1);
+    i++;
+  }
+  return tokens;
+}
+
+// --3, --2..5, --[-2], --[-3..-1], --odd, --even, --3n, --3n+1; an "e" suffix applies it per scope
+const INDEX_MODIFIER_PATTERN = /^--(\d+|\d*\.\.\d*|\[-?\d*(?:\.\.-?\d*)?\]|odd|even|\d+n(?:\+\d+)?)(e?)$/;
+
+/**
+ * Reads an inline index modifier token.
+ * @returns The selector and whether it applies per scope ("e" suffix), or null for other modifiers
+ */
+function readIndexModifier(token: QueryToken): { selector: IndexSelector; each: boolean } | null {
+  const m = token.text.match(INDEX_MODIFIER_PATTERN);
+  if (!m) return null;
+  const selector = parseIndexSelector(m[1]);
+  if (!selector) throw syntaxError(`Invalid index ${token.text}`, token.start, token.end);
+  return { selector, each: m[2] === 'e' };
 }
 
 /**
- * Parses search modifiers from the query string.
- * Recognized modifiers:
+ * Applies a search-wide modifier token to `modifiers`:
  *  - --f     Stop at the first match overall.
  *  - --fe    Stop at the first match within each scope on the last part.
  *  - --h     Only include hidden nodes on the final part; intermediate parts include both.
  *  - --a     Include both hidden and visible nodes for all parts.
- *  - --#     Global index across all matched layers (e.g. --3 picks the 3rd overall).
- *  - --#e    Per-scope index on the last part (e.g. --2e picks 2nd inside each scope).
- * Returns the modifiers and the cleaned query without modifiers. Modifiers may appear in any order.
- */
-function parseModifiers(query: string): SearchModifiers {
-  const modifiers = {
-    firstMatch: false,      // --f: stop at first match overall
-    firstMatchEach: false,  // --fe: stop at first match in each scope
-    hiddenOnly: false,      // --h: search only hidden layers
-    allLayers: false,       // --a: search both hidden and visible layers
-    cleanQuery: query,
-    indexPick: null as number | null,
-    indexPickEach: null as number | null
+ *  - --d#    Limit every "/" step to # levels below its scope (e.g. --d2).
+ *  - --z     Typo-tolerant names; results are ranked by how closely they match.
+ *  - --w     Unquoted tokens match whole words only (see isWordBoundary).
+ *  - --c     Unquoted tokens are case-sensitive.
+ *  - --n     Unquoted tokens and wildcards ignore case, accents, separators and camelCase (see normalizeName).
+ *  - --all-pages  Search every page (or every page matching a leading "#" step).
+ *  - --order=x    Order index picks, --f, --fe and the results by x (see ResultOrder).
+ * Index modifiers (--3, --2e, --odd, ...) belong to a step instead; see readIndexModifier.
+ */
+function applyModifier(modifiers: SearchModifiers, token: QueryToken): void {
+  const flag = token.text.substring(2);
+  if (flag === 'f') modifiers.firstMatch = true;
+  else if (flag === 'fe') modifiers.firstMatchEach = true;
+  else if (flag === 'h') modifiers.hiddenOnly = true;
+  else if (flag === 'a') modifiers.allLayers = true;
+  else if (flag === 'z') modifiers.fuzzy = true;
+  else if (flag === 'w') modifiers.wholeWord = true;
+  else if (flag === 'c') modifiers.caseSensitive = true;
+  else if (flag === 'n') modifiers.normalize = true;
+  else if (flag.startsWith('order=')) {
+    const order = flag.substring(6) as ResultOrder;
+    if (RESULT_ORDERS.indexOf(order) === -1) {
+      throw syntaxError(`Unknown order "${order}" (use ${RESULT_ORDERS.join(', ')})`, token.start, token.end);
+    }
+    modifiers.order = order;
+  }
+  else if (flag === 'all-pages') modifiers.allPages = true;
+  else if (/^d\d+$/.test(flag)) modifiers.maxDepth = Math.max(1, parseInt(flag.substring(1), 10));
+  else throw syntaxError(`Unknown modifier ${token.text} (put it in quotes to search for it)`, token.start, token.end);
+}
+
+/**
+ * One step of a parsed query path. Positions point into the query as typed.
+ */
+interface QueryPart {
+  part: string;                   // the step as written without modifiers ('' searches any layer)
+  type: string;                   // search type and name (of the ancestor part for "<" steps)
+  name: string;
+  isDirectChild: boolean;         // after "//"
+  depth: DepthBound | null;       // after a /{1,3}/ separator
+  sibling: SiblingCombinator | null;
+  upward: string | null;          // ".." ('') or "<part" (the part); null for other steps
+  index: { selector: IndexSelector; each: boolean } | null;
+  start: number;
+  end: number;
+}
+
+/**
+ * Set operators between paths: union, intersection and difference.
+ */
+type SetOperator = ',' | '&&' | '\\';
+
+/**
+ * One path of a set expression, with the operator that joins it to the paths before it
+ * (null for the first). `query` is the path as text, aliases expanded, ready to search.
+ */
+interface SetOperand {
+  operator: SetOperator | null;
+  query: string;
+  parts: QueryPart[];
+}
+
+/**
+ * A parsed query: its steps in order and the search-wide modifiers. The modifiers'
+ * cleanQuery is the query without them (index modifiers stay with their steps).
+ * A set expression ("@Card , @Tile") has no steps of its own: each path is in `operands`,
+ * and `index` is the index modifier that picks from the combined results.
+ */
+interface ParsedQuery {
+  parts: QueryPart[];
+  modifiers: SearchModifiers;
+  operands: SetOperand[];
+  index: { selector: IndexSelector; each: boolean } | null;
+}
+
+/**
+ * Parses a query into steps and modifiers. Steps are separated by "/" (any depth), "//"
+ * (direct children) or a /{min,max}/ depth bound, and within a step by sibling
+ * combinators. A leading "//" applies to the first step only; a trailing "/" or "//"
+ * adds a step that matches any layer. Modifiers may appear anywhere, in any order.
+ * Set operators split the query into paths that are parsed the same way; a global index
+ * modifier at the very end then applies to the combined results.
+ * Throws a QuerySyntaxError pointing at the offending characters.
+ * @param offset - Added to every position (for subqueries inside a larger query)
+ */
+function parseQuery(query: string, offset: number = 0): ParsedQuery {
+  const modifiers: SearchModifiers = {
+    firstMatch: false,
+    firstMatchEach: false,
+    hiddenOnly: false,
+    allLayers: false,
+    cleanQuery: '',
+    maxDepth: null,
+    fuzzy: false,
+    wholeWord: false,
+    caseSensitive: false,
+    normalize: false,
+    allPages: false,
+    order: null
   };
-  
-  let cleanQuery = query.trim();
-  
-  // Handle --fe as a special case first to avoid regex conflicts
-  if (cleanQuery.includes('--fe')) {
-    modifiers.firstMatchEach = true;
-    cleanQuery = cleanQuery.replace(/\s*--fe\s*/g, '').trim();
+
+  // Group tokens by set operator; search-wide modifiers leave the query
+  const paths: { operator: QueryToken | null; tokens: QueryToken[] }[] = [{ operator: null, tokens: [] }];
+  let cleanQuery = '';
+  for (const token of scanQuery(query, offset)) {
+    if (token.kind === 'modifier' && !readIndexModifier(token)) {
+      applyModifier(modifiers, token);
+      continue;
+    }
+    cleanQuery += token.text;
+    if (token.kind === 'operator') paths.push({ operator: token, tokens: [] });
+    else paths[paths.length - 1].tokens.push(token);
   }
-  // Note: index modifiers (--# and --#e) are handled inline per part; do not strip here.
-  
-  const modifierPattern = /\s*--([fha])\s*/g;
-  let match;
-  
-  while ((match = modifierPattern.exec(cleanQuery)) !== null) {
-    const modifier = match[1];
-    switch (modifier) {
-      case 'f':
-        modifiers.firstMatch = true;
-        break;
-      case 'h':
-        modifiers.hiddenOnly = true;
-        break;
-      case 'a':
-        modifiers.allLayers = true;
-        break;
+  modifiers.cleanQuery = cleanQuery.trim();
+
+  if (paths.length === 1) {
+    const parts = parsePath(paths[0].tokens, offset);
+    return { parts, modifiers, operands: [{ operator: null, query: modifiers.cleanQuery, parts }], index: null };
+  }
+
+  // A global index at the very end picks from the combined results; "--2e" stays with its step
+  const lastTokens = paths[paths.length - 1].tokens;
+  const lastWord = lastTokens.filter(t => t.kind !== 'space').pop();
+  let index: ParsedQuery['index'] = null;
+  if (lastWord && lastWord.kind === 'modifier') {
+    const pick = readIndexModifier(lastWord);
+    if (pick && !pick.each) {
+      index = pick;
+      lastTokens.splice(lastTokens.indexOf(lastWord), 1);
     }
   }
-  
-  // Remove all remaining modifiers from the query
-  cleanQuery = cleanQuery.replace(/\s*--[fha]\s*/g, '').trim();
-  
-  modifiers.cleanQuery = cleanQuery;
-  return modifiers;
+
+  const operands = paths.map((path, k): SetOperand => {
+    const words = path.tokens.filter(t => t.kind !== 'space');
+    if (!words.length) {
+      const op = path.operator || paths[k + 1].operator!;
+      throw syntaxError(`Nothing to combine ${path.operator ? 'after' : 'before'} "${op.text}"`, op.start, op.end);
+    }
+    const parts = parsePath(path.tokens, words[0].start);
+    if (parts[0].type === 'PAGE' && !parts[0].sibling) {
+      throw syntaxError('Pages can\'t be combined with "," "&&" or "\\"; use --all-pages to search every page', parts[0].start, parts[0].end);
+    }
+    return {
+      operator: path.operator ? path.operator.text as SetOperator : null,
+      query: path.tokens.map(t => t.text).join('').trim(),
+      parts,
+    };
+  });
+  return { parts: [], modifiers, operands, index };
 }
 
-figma.ui.onmessage = async (msg: { type: string; query?: string }) => {
-  if (msg.type === 'search' && msg.query) {
-    let originalSkipInvisible = figma.skipInvisibleInstanceChildren;
-    try {
-      // Persist the last executed query
-      try { await figma.clientStorage.setAsync(LAST_QUERY_KEY, msg.query); } catch {}
+/**
+ * Turns the tokens of one path into its steps (see parseQuery).
+ * @param at - Position of the path, for steps that have no text of their own
+ */
+function parsePath(tokens: QueryToken[], at: number): QueryPart[] {
+  // Group tokens by separator
+  const groups: { separator: QueryToken | null; tokens: QueryToken[] }[] = [{ separator: null, tokens: [] }];
+  for (const token of tokens) {
+    if (token.kind === 'slash') groups.push({ separator: token, tokens: [] });
+    else groups[groups.length - 1].tokens.push(token);
+  }
 
-      // Reset cancel flag
-      SEARCH_CANCELLED = false;
-      
-      // Parse modifiers from the end of the query
-      const modifiers = parseModifiers(msg.query);
-      // Ensure hidden nodes inside instances are traversed for --h and --a
-      const needAllChildren = modifiers.hiddenOnly || modifiers.allLayers;
-      if (needAllChildren && figma.skipInvisibleInstanceChildren) {
-        figma.skipInvisibleInstanceChildren = false;
+  const parts: QueryPart[] = [];
+  let depth: DepthBound | null = null;
+  const addPart = (tokens: QueryToken[], at: number, direct: boolean, sibling: SiblingCombinator | null) => {
+    let text = '';
+    let index: QueryPart['index'] = null;
+    for (const token of tokens) {
+      if (token.kind !== 'modifier') {
+        text += token.text;
+      } else if (index) {
+        throw syntaxError('Only one index modifier per step', token.start, token.end);
+      } else {
+        index = readIndexModifier(token);
       }
-      STOP_ON_FIRST = modifiers.firstMatch;
-      FOUND_ONE = false;
-      const q = modifiers.cleanQuery;
-
-      // Show progress for heavy files
-      figma.ui.postMessage({ type: 'searchProgress', message: 'Starting search...' });
-
-      let movedToPage = false;
-
-      // Helper to cleanup state before closing or finishing
-      const cleanup = () => {
-        try { figma.skipInvisibleInstanceChildren = originalSkipInvisible; } catch {}
-        try { searchCache.clear(); } catch {}
-        try { nodeCache.clear(); } catch {}
-        try { nameMatcherCache.clear(); } catch {}
-        STOP_ON_FIRST = false;
-        FOUND_ONE = false;
-        SEARCH_CANCELLED = false;
-      };
+    }
+    const words = tokens.filter(t => t.kind !== 'space');
+    const part = text.trim();
+    const upward = getUpwardStep(part);
+    const { type, name } = getPartTypeAndName(upward ?? part);
+    parts.push({
+      part, type, name, isDirectChild: direct, depth, sibling, upward, index,
+      start: words.length ? words[0].start : at,
+      end: words.length ? words[words.length - 1].end : at,
+    });
+    depth = null;
+  };
 
-      // Detect leading "#Page ..." and switch pages first
-      const m = q.match(/^\s*#([^/]+)/);
-      if (m) {
-        const pageQuery = m[1].trim();
-        const pageNameMatches = buildNameMatcher(pageQuery);
-        const target = figma.root.children.find(
-          p => p.type === 'PAGE' && pageNameMatches(p.name)
-        );
-        if (target) {
-          await figma.setCurrentPageAsync(target as PageNode);
-          // Don't load page content for page search - it's unnecessary and slow
-          movedToPage = true;
-        }
+  groups.forEach((group, g) => {
+    const direct = group.separator?.text === '//';
+    const groupAt = group.separator ? group.separator.end : at;
+    const words = group.tokens.filter(t => t.kind !== 'space');
+    if (!words.length) {
+      if (g === 0) return; // "/" or "//" at the start: the first step follows
+      if (g === groups.length - 1) addPart([], groupAt, direct, null);
+      else throw syntaxError('Empty step between separators', group.separator!.start, groups[g + 1].separator!.end);
+      return;
+    }
+
+    // A depth separator (/{1,3}/) bounds the step that follows it
+    if (words.length === 1 && words[0].kind === 'text') {
+      let bound: DepthBound | null;
+      try {
+        bound = parseDepthBound(words[0].text);
+      } catch (e) {
+        throw syntaxError(e instanceof Error ? e.message : String(e), words[0].start, words[0].end);
       }
+      if (bound) {
+        depth = bound;
+        if (g === groups.length - 1) addPart([], words[0].end, false, null);
+        return;
+      }
+    }
 
-      const results = await performSearch(q, movedToPage, modifiers);
+    // Sibling combinators ("!Icon + =Label") start steps of their own
+    const steps: { combinator: QueryToken | null; tokens: QueryToken[] }[] = [{ combinator: null, tokens: [] }];
+    for (const token of group.tokens) {
+      if (token.kind === 'combinator') steps.push({ combinator: token, tokens: [] });
+      else steps[steps.length - 1].tokens.push(token);
+    }
+    // A step that starts with a combinator steps from the previous matches (or the selection)
+    if (steps.length > 1 && !steps[0].tokens.some(t => t.kind !== 'space')) steps.shift();
+    steps.forEach((step, k) => addPart(
+      step.tokens,
+      step.combinator ? step.combinator.end : groupAt,
+      k === 0 && direct,
+      step.combinator ? step.combinator.text as SiblingCombinator : null
+    ));
+  });
 
-      let selectableNodes = results
-        .map(r => r.node)
-        .filter(node => 'id' in node && node.type !== 'PAGE') as SceneNode[];
+  return parts;
+}
 
-      if (!movedToPage) {
-        const pageResult = results.find(r => r.node.type === 'PAGE');
-        if (pageResult) {
-          await figma.setCurrentPageAsync(pageResult.node as PageNode);
-          movedToPage = true;
-        }
-      }
+/**
+ * Parses a :has(...) subquery. Subqueries are plain paths: modifiers, index modifiers,
+ * set operators, sibling combinators and upward steps are reported as errors.
+ * @param offset - Position of the subquery in the full query
+ */
+function parseSubquery(subquery: string, offset: number = 0): QueryPart[] {
+  const tokens = scanQuery(subquery, offset);
+  const modifier = tokens.find(t => t.kind === 'modifier');
+  if (modifier) throw syntaxError(`Modifiers like ${modifier.text} can't be used inside :has()`, modifier.start, modifier.end);
+  const operator = tokens.find(t => t.kind === 'operator');
+  if (operator) throw syntaxError(`Set operators like "${operator.text}" can't be used inside :has()`, operator.start, operator.end);
+  const { parts } = parseQuery(subquery, offset);
+  const unsupported = parts.find(p => p.sibling || p.upward !== null);
+  if (unsupported) {
+    throw syntaxError('Sibling and upward steps can\'t be used inside :has()', unsupported.start, unsupported.end);
+  }
+  return parts;
+}
 
-      if (SEARCH_CANCELLED) {
-        figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: 'Search cancelled' });
-      } else if (selectableNodes.length > 0) {
-        figma.currentPage.selection = selectableNodes;
-        figma.viewport.scrollAndZoomIntoView(selectableNodes);
-        const msg = movedToPage
-          ? `Found page and selected ${selectableNodes.length} ${selectableNodes.length === 1 ? 'layer' : 'layers'}`
-          : `Found and selected ${selectableNodes.length} ${selectableNodes.length === 1 ? 'layer' : 'layers'}`;
-        cleanup();
-        figma.closePlugin(msg);
-      } else if (movedToPage) {
-        cleanup();
-        figma.closePlugin('Found page');
-      } else {
-        figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0 });
+/**
+ * Builds every step's matcher up front so an invalid regex, attribute filter or :has()
+ * subquery is reported before any traversal starts. Errors point at the regex or filter
+ * when it can be found in the step, otherwise at the whole step.
+ * @param query - The text the query was parsed from
+ * @param offset - Position of `query` in the text the user typed
+ */
+function validateQuery(parts: QueryPart[], query: string, offset: number = 0): void {
+  for (const p of parts) {
+    if (!p.part || p.upward === '') continue;
+    try {
+      if (p.type === 'PAGE') buildPageMatcher(p.name);
+      else buildNodeMatcher(p.type, p.name);
+    } catch (e) {
+      if (isSyntaxError(e)) throw e;
+      const message = e instanceof Error ? e.message : String(e);
+      const quoted = message.match(/^(?:Invalid pattern|Invalid property filter|Unknown attribute filter|(?:Attribute|Style) filter) (\/.*\/[a-z]*|\{.*?\}|\[.*?\])(?::|\s|$)/);
+      const at = quoted ? query.indexOf(quoted[1], p.start - offset) : -1;
+      if (at !== -1 && at + offset < p.end) throw syntaxError(message, at + offset, at + offset + quoted![1].length);
+      throw syntaxError(message, p.start, p.end);
+    }
+    for (const sub of getHasSubqueries(p.type, p.name)) {
+      const found = sub ? query.indexOf(sub, p.start - offset) : -1;
+      if (!sub) throw syntaxError('Empty :has() subquery', p.start, p.end);
+      const at = found === -1 ? p.start : found + offset;
+      const subParts = parseSubquery(sub, at);
+      validateQuery(subParts, sub, at);
+      validateNesting(subParts, p);
+    }
+  }
+}
+
+// Types whose layers never have children, and how to name them in an explanation. Shapes
+// include boolean operations and images are any layer with an image fill, so both can
+// have children and are left out
+const LEAF_TYPES: { [type: string]: string } = {
+  TEXT: 'Text layers', VECTOR: 'Vectors',
+};
+// Types that can never hold a section
+const NO_SECTION_TYPES: { [type: string]: string } = {
+  INSTANCE: 'instances', COMPONENT: 'components',
+};
+
+/**
+ * Checks that each step can be contained in the one before it, so queries that can never
+ * match are explained instead of coming back empty: pages only as the first step, nothing
+ * inside text or vectors, and no sections inside instances or components.
+ * Sibling steps share the container of the step before them; after an upward step the
+ * container is only known by its type. Throws a QuerySyntaxError on the offending step.
+ * @param container - The step whose layers a subquery searches, for :has(...) subqueries
+ */
+function validateNesting(parts: QueryPart[], container: QueryPart | null = null): void {
+  let current = container;          // the step whose matches the next step searches inside
+  let parent: QueryPart | null = null; // the container of `current`, which sibling steps share
+  parts.forEach((p, k) => {
+    if (p.upward !== null) {
+      if (p.type === 'PAGE') {
+        throw syntaxError(`Upward steps never return pages, so "${p.part}" can never match`, p.start, p.end);
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: `Error: ${errorMessage}` });
-    } finally {
-      // If we didn't close the plugin above, ensure cleanup now
-      try { figma.skipInvisibleInstanceChildren = originalSkipInvisible; } catch {}
-      try { searchCache.clear(); } catch {}
-      try { nodeCache.clear(); } catch {}
-      STOP_ON_FIRST = false;
-      FOUND_ONE = false;
-      SEARCH_CANCELLED = false;
+      current = p.upward ? p : null;
+      parent = null;
+      return;
     }
-  } else if (msg.type === 'cancel') {
+    const scope = p.sibling ? parent : current;
+    if (p.type === 'PAGE' && (k > 0 || container)) {
+      throw syntaxError(`Pages can only be the first step, so "${p.part}" can't be inside another layer`, p.start, p.end);
+    }
+    if (scope && LEAF_TYPES[scope.type] && !p.sibling) {
+      throw syntaxError(
+        `${LEAF_TYPES[scope.type]} can't contain other layers, so ${p.part ? `"${p.part}"` : 'anything'} inside "${scope.part}" can never match`,
+        p.start, p.end
+      );
+    }
+    if (scope && p.type === 'SECTION' && NO_SECTION_TYPES[scope.type]) {
+      throw syntaxError(
+        `Sections can't be placed inside ${NO_SECTION_TYPES[scope.type]}, so "${p.part}" inside "${scope.part}" can never match`,
+        p.start, p.end
+      );
+    }
+    if (!p.sibling) parent = scope;
+    current = p;
+  });
+}
+
+/**
+ * Runs validateQuery and validateNesting on every path of a parsed query, so searches
+ * and saved queries refuse the same mistakes.
+ * @param query - The text the query was parsed from
+ */
+function validateOperands(parsed: ParsedQuery, query: string): void {
+  for (const operand of parsed.operands) {
+    validateQuery(operand.parts, query);
+    validateNesting(operand.parts);
+  }
+}
+
+/**
+ * Which 1-based positions of a visually sorted list an inline index keeps. Ranges cover
+ * single indexes (from === to); negative bounds count from the end and 0 means last.
+ * Steps keep every position of the form step*n + offset (n >= 0), like CSS :nth-child.
+ */
+type IndexSelector =
+  | { kind: 'range'; from: number | null; to: number | null }
+  | { kind: 'step'; step: number; offset: number };
+
+const FIRST_INDEX: IndexSelector = { kind: 'range', from: 1, to: 1 };
+
+/**
+ * Parses the text of an inline index (without the leading "--" and "e" suffix).
+ * @returns The selector, or null when the text is not a usable index (e.g. "..")
+ */
+function parseIndexSelector(spec: string): IndexSelector | null {
+  if (spec === 'odd') return { kind: 'step', step: 2, offset: 1 };
+  if (spec === 'even') return { kind: 'step', step: 2, offset: 0 };
+  const step = spec.match(/^(\d+)n(?:\+(\d+))?$/);
+  if (step) {
+    const k = parseInt(step[1], 10);
+    return k > 0 ? { kind: 'step', step: k, offset: step[2] ? parseInt(step[2], 10) : 0 } : null;
+  }
+  const body = spec.startsWith('[') ? spec.slice(1, -1) : spec;
+  const bound = (text: string) => (text === '' ? null : parseInt(text, 10));
+  const range = body.match(/^(-?\d*)\.\.(-?\d*)$/);
+  if (range) {
+    if (range[1] === '' && range[2] === '') return null;
+    return { kind: 'range', from: bound(range[1]), to: bound(range[2]) };
+  }
+  if (!/^-?\d+$/.test(body)) return null;
+  const index = parseInt(body, 10);
+  return { kind: 'range', from: index, to: index };
+}
+
+/**
+ * Compares layer names for --order=name: case-insensitive, with numbers compared by value
+ * so "Card 2" comes before "Card 10".
+ */
+function compareNames(a: string, b: string): number {
+  const chunksA = a.toLowerCase().match(/\d+|\D+/g) || [];
+  const chunksB = b.toLowerCase().match(/\d+|\D+/g) || [];
+  for (let i = 0; i < Math.min(chunksA.length, chunksB.length); i++) {
+    const x = chunksA[i];
+    const y = chunksB[i];
+    if (x === y) continue;
+    if (/^\d/.test(x) && /^\d/.test(y)) return (parseInt(x, 10) - parseInt(y, 10)) || (x.length - y.length);
+    return x < y ? -1 : 1;
+  }
+  return chunksA.length - chunksB.length;
+}
+
+/**
+ * Applies an index selector to a list that is already in visual order.
+ * @returns The kept items, in order
+ */
+function pickIndexed<T>(sorted: T[], selector: IndexSelector): T[] {
+  const count = sorted.length;
+  if (selector.kind === 'step') {
+    const { step, offset } = selector;
+    return sorted.filter((_, i) => i + 1 >= offset && (i + 1 - offset) % step === 0);
+  }
+  const resolve = (index: number) => (index === 0 ? count : index < 0 ? count + index + 1 : index);
+  let from = selector.from === null ? 1 : resolve(selector.from);
+  let to = selector.to === null ? count : resolve(selector.to);
+  if (from > to) [from, to] = [to, from];
+  return sorted.slice(Math.max(0, from - 1), Math.max(0, to));
+}
+
+// How many near matches are offered when a search finds nothing
+const FUZZY_CANDIDATE_LIMIT = 5;
+
+/**
+ * Builds the scorer for the last part of a query, which ranks --z results. Returns null
+ * when that part picks by index (results keep their visual order) or is a page or upward step.
+ * Set expressions score each layer by the best of the paths it was added by.
+ */
+function getFinalPartScorer(query: string): ((n: SceneNode) => number) | null {
+  const parsed = parseQuery(query);
+  if (parsed.index) return null;
+  const scorers: ((n: SceneNode) => number)[] = [];
+  for (const { operator, parts } of parsed.operands) {
+    const last = parts[parts.length - 1];
+    if (operator === '\\') continue;
+    if (!last || last.index || last.upward !== null || last.type === 'PAGE') return null;
+    scorers.push(buildNodeScorer(last.type, last.name));
+  }
+  return scorers.length === 1 ? scorers[0] : (n: SceneNode) => Math.max(...scorers.map(score => score(n)));
+}
+
+/**
+ * Orders --z results by how closely the last part matches, best first. Ties keep their
+ * visual order.
+ */
+function rankByScore(results: SearchResult[], query: string): SearchResult[] {
+  const score = getFinalPartScorer(query);
+  if (!score) return results;
+  const scored = results.map((r, i) => ({ r, i, s: r.node.type === 'PAGE' ? 0 : score(r.node as SceneNode) }));
+  scored.sort((a, b) => b.s - a.s || a.i - b.i);
+  return scored.map(x => x.r);
+}
+
+/**
+ * Repeats a search that found nothing with typo-tolerant names and returns the closest
+ * layers, best first, so the UI can offer them.
+ */
+async function findFuzzyCandidates(query: string, modifiers: SearchModifiers): Promise<SearchResult[]> {
+  FUZZY = true;
+  STOP_ON_FIRST = false;
+  FOUND_ONE = false;
+  hasMatchCache.clear(); // :has results depend on the name rules
+  try {
+    const results = await performSearch(query, false, { ...modifiers, firstMatch: false, fuzzy: true });
+    if (SEARCH_CANCELLED) return [];
+    return rankByScore(results.filter(r => r.node.type !== 'PAGE'), query).slice(0, FUZZY_CANDIDATE_LIMIT);
+  } finally {
+    FUZZY = false;
+  }
+}
+
+/**
+ * Reports a query syntax error to the UI along with the span to underline.
+ */
+function postSyntaxError(error: QuerySyntaxError): void {
+  figma.ui.postMessage({
+    type: 'searchComplete', count: 0, total: 0,
+    message: error.message, errorStart: error.start, errorEnd: error.end,
+  });
+}
+
+/**
+ * Layers found on one page by a multi-page search.
+ */
+interface PageResults {
+  page: PageNode;
+  nodes: SceneNode[];
+}
+
+/**
+ * Whether a query searches several pages: with --all-pages, or when it starts with "#*".
+ */
+function isMultiPageQuery(parts: QueryPart[], modifiers: SearchModifiers): boolean {
+  const first = parts[0];
+  return !!modifiers.allPages || !!(first && first.type === 'PAGE' && !first.sibling && first.name.trim() === '*');
+}
+
+/**
+ * Rejects paths a multi-page search can't run: each page is searched as a whole, so
+ * there is no selection to start from and a lone page step has nothing to select.
+ */
+function validateMultiPage(parts: QueryPart[]): void {
+  const first = parts[0];
+  if (!first) return;
+  const startsAtPage = first.type === 'PAGE' && !first.sibling;
+  if (startsAtPage && parts.length === 1) {
+    throw syntaxError('Add a step after the page to search across pages, e.g. #*/@Card', first.start, first.end);
+  }
+  const step = startsAtPage ? null : first;
+  if (step && (step.upward !== null || step.sibling)) {
+    throw syntaxError(`Searching all pages doesn't use the selection, so "${step.part}" can't be the first step`, step.start, step.end);
+  }
+}
+
+/**
+ * Searches each page in turn, loading it first (pages other than the current one are not
+ * loaded under dynamic-page access). Index modifiers and --fe apply within each page;
+ * --f stops at the first page with a match.
+ * @param pages - The pages to search, in document order
+ * @returns The pages with matches and their layers
+ */
+async function searchPages(query: string, pages: PageNode[], modifiers: SearchModifiers): Promise<PageResults[]> {
+  const found: PageResults[] = [];
+  for (const page of pages) {
+    if (SEARCH_CANCELLED) break;
+    figma.ui.postMessage({ type: 'searchProgress', message: `Searching #${page.name}...` });
+    await page.loadAsync();
+    let results = await performSearch(query, true, modifiers, page);
+    if (FUZZY) results = rankByScore(results, query);
+    const nodes = results.map(r => r.node).filter(n => n.type !== 'PAGE') as SceneNode[];
+    if (nodes.length) found.push({ page, nodes });
+    if (nodes.length && modifiers.firstMatch) break;
+  }
+  return found;
+}
+
+/**
+ * Runs a full search for a raw query: parses modifiers, switches pages, selects the
+ * results and reports back to the UI (closing the plugin when something was selected).
+ * Multi-page searches that match on several pages report per-page counts instead, so the
+ * user can pick a page to select.
+ * @returns Whether layers or a page were selected (the plugin is closed then)
+ */
+async function runSearch(query: string): Promise<boolean> {
+  const originalSkipInvisible = figma.skipInvisibleInstanceChildren;
+
+  // Helper to cleanup state before closing or finishing; runs again when the search ends
+  const cleanup = () => {
+    try {
+      figma.skipInvisibleInstanceChildren = originalSkipInvisible;
+    } catch {
+      // Best effort: the plugin may already be closing
+    }
+    searchCache.clear();
+    nodeCache.clear();
+    nameMatcherCache.clear();
+    clearSearchCaches();
+    STOP_ON_FIRST = false;
+    DEPTH_BOUND = null;
+    FOUND_ONE = false;
+    FUZZY = false;
+    WHOLE_WORD = false;
+    CASE_SENSITIVE = false;
+    NORMALIZE = false;
+    SEARCH_CANCELLED = false;
+  };
+
+  try {
+    // Persist the last executed query
+    try {
+      await figma.clientStorage.setAsync(LAST_QUERY_KEY, query);
+    } catch {
+      // Not restoring the query next time is better than failing the search
+    }
+
+    // Reset cancel flag
+    SEARCH_CANCELLED = false;
+
+    // Aliases (":name") expand while parsing, so the library must be loaded first
+    await savedQueriesLoad;
+    
+    // Parse the query once; syntax errors are reported with their position so the UI can underline them
+    let parsed: ParsedQuery;
+    try {
+      parsed = parseQuery(query);
+    } catch (e) {
+      if (!isSyntaxError(e)) throw e;
+      postSyntaxError(e);
+      return false;
+    }
+    const modifiers = parsed.modifiers;
+    // Ensure hidden nodes inside instances are traversed for --h and --a
+    const needAllChildren = modifiers.hiddenOnly || modifiers.allLayers;
+    if (needAllChildren && figma.skipInvisibleInstanceChildren) {
+      figma.skipInvisibleInstanceChildren = false;
+    }
+    STOP_ON_FIRST = modifiers.firstMatch;
+    FOUND_ONE = false;
+    FUZZY = !!modifiers.fuzzy;
+    WHOLE_WORD = !!modifiers.wholeWord;
+    CASE_SENSITIVE = !!modifiers.caseSensitive;
+    NORMALIZE = !!modifiers.normalize;
+    const q = modifiers.cleanQuery;
+
+    // Show progress for heavy files
+    figma.ui.postMessage({ type: 'searchProgress', message: 'Starting search...' });
+
+    let movedToPage = false;
+
+    // Report malformed regex tokens, attribute filters and impossible nesting before touching the document
+    try {
+      validateOperands(parsed, query);
+      if (isMultiPageQuery(parsed.parts, modifiers)) parsed.operands.forEach(operand => validateMultiPage(operand.parts));
+    } catch (e) {
+      if (!isSyntaxError(e)) throw e;
+      postSyntaxError(e);
+      return false;
+    }
+
+    // Several pages: selection can't span pages, so one page's results are selected directly
+    // and otherwise the UI lists the pages to choose from
+    if (isMultiPageQuery(parsed.parts, modifiers)) {
+      const first = parsed.parts[0];
+      const pageNameMatches = first && first.type === 'PAGE' && !first.sibling ? buildPageMatcher(first.name) : () => true;
+      const pages = figma.root.children.filter(p => pageNameMatches(p));
+      const found = await searchPages(q, pages, modifiers);
+      const total = found.reduce((sum, r) => sum + r.nodes.length, 0);
+      const layers = (n: number) => `${n} ${n === 1 ? 'layer' : 'layers'}`;
+      if (SEARCH_CANCELLED) {
+        figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: 'Search cancelled' });
+      } else if (found.length === 1) {
+        const { page, nodes } = found[0];
+        if (page !== figma.currentPage) await figma.setCurrentPageAsync(page);
+        figma.currentPage.selection = nodes;
+        figma.viewport.scrollAndZoomIntoView(nodes);
+        cleanup();
+        figma.closePlugin(`Found and selected ${layers(nodes.length)} on #${page.name}`);
+        return true;
+      } else if (found.length) {
+        figma.ui.postMessage({
+          type: 'searchComplete', count: 0, total,
+          message: `Found ${layers(total)} on ${found.length} pages. Pick a page to select them:`,
+          pages: found.map(r => ({ id: r.page.id, name: r.page.name, count: r.nodes.length, ids: r.nodes.map(n => n.id) })),
+        });
+      } else {
+        figma.ui.postMessage({
+          type: 'searchComplete', count: 0, total: 0,
+          message: `No matching layers found on ${pages.length} ${pages.length === 1 ? 'page' : 'pages'}`,
+        });
+      }
+      return false;
+    }
+
+    // Detect leading "#Page ..." and switch pages first
+    const firstPart = parsed.parts[0];
+    if (firstPart && firstPart.type === 'PAGE' && !firstPart.sibling) {
+      const pageNameMatches = buildPageMatcher(firstPart.name);
+      const target = figma.root.children.find(
+        p => p.type === 'PAGE' && pageNameMatches(p)
+      );
+      if (target) {
+        await figma.setCurrentPageAsync(target as PageNode);
+        // Don't load page content for page search - it's unnecessary and slow
+        movedToPage = true;
+      }
+    }
+
+    let results = await performSearch(q, movedToPage, modifiers);
+    if (FUZZY) results = rankByScore(results, q);
+
+    const selectableNodes = results
+      .map(r => r.node)
+      .filter(node => 'id' in node && node.type !== 'PAGE') as SceneNode[];
+
+    if (!movedToPage) {
+      const pageResult = results.find(r => r.node.type === 'PAGE');
+      if (pageResult) {
+        await figma.setCurrentPageAsync(pageResult.node as PageNode);
+        movedToPage = true;
+      }
+    }
+
+    if (SEARCH_CANCELLED) {
+      figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: 'Search cancelled' });
+    } else if (selectableNodes.length > 0) {
+      figma.currentPage.selection = selectableNodes;
+      figma.viewport.scrollAndZoomIntoView(selectableNodes);
+      const msg = movedToPage
+        ? `Found page and selected ${selectableNodes.length} ${selectableNodes.length === 1 ? 'layer' : 'layers'}`
+        : `Found and selected ${selectableNodes.length} ${selectableNodes.length === 1 ? 'layer' : 'layers'}`;
+      cleanup();
+      figma.closePlugin(msg);
+      return true;
+    } else if (movedToPage) {
+      cleanup();
+      figma.closePlugin('Found page');
+      return true;
+    } else {
+      // Nothing matched exactly: offer the closest names instead
+      const candidates = FUZZY ? [] : await findFuzzyCandidates(q, modifiers);
+      if (candidates.length && !SEARCH_CANCELLED) {
+        figma.ui.postMessage({
+          type: 'searchComplete', count: 0, total: 0,
+          message: 'No matching layers found. Did you mean:',
+          candidates: candidates.map(c => ({ id: c.node.id, path: getNodePath(c.node) })),
+        });
+      } else {
+        figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0 });
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: `Error: ${errorMessage}` });
+  } finally {
+    // If we didn't close the plugin above, ensure cleanup now
+    cleanup();
+  }
+  return false;
+}
+
+figma.ui.onmessage = async (msg: {
+  type: string; query?: string; id?: string; ids?: string[];
+  name?: string; previousName?: string; team?: boolean; revision?: number;
+}) => {
+  if (msg.type === 'search' && msg.query) {
+    await runSearch(msg.query);
+  } else if (msg.type === 'selectPageResults' && msg.id && msg.ids) {
+    // One page of a multi-page search was picked: switch to it and select its results there
+    const page = await figma.getNodeByIdAsync(msg.id);
+    if (!page || page.type !== 'PAGE') {
+      figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: 'That page no longer exists' });
+      return;
+    }
+    await page.loadAsync();
+    const nodes: SceneNode[] = [];
+    for (const id of msg.ids) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (!node || node.removed || node.type === 'PAGE' || node.type === 'DOCUMENT') continue;
+      let owner: BaseNode | null = node.parent;
+      while (owner && owner.type !== 'PAGE') owner = owner.parent;
+      if (owner === page) nodes.push(node as SceneNode);
+    }
+    if (page !== figma.currentPage) await figma.setCurrentPageAsync(page);
+    figma.currentPage.selection = nodes;
+    if (nodes.length) figma.viewport.scrollAndZoomIntoView(nodes);
+    figma.ui.postMessage({ type: 'pageResultsSelected', id: page.id, name: page.name, count: nodes.length });
+  } else if (msg.type === 'selectCandidate' && msg.id) {
+    // A suggested near match was picked: select it on its page
+    const node = await figma.getNodeByIdAsync(msg.id);
+    if (!node || node.type === 'PAGE' || node.type === 'DOCUMENT' || node.removed) {
+      figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: 'That layer no longer exists' });
+      return;
+    }
+    let page: BaseNode | null = node.parent;
+    while (page && page.type !== 'PAGE') page = page.parent;
+    if (page && page !== figma.currentPage) await figma.setCurrentPageAsync(page as PageNode);
+    figma.currentPage.selection = [node as SceneNode];
+    figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
+    figma.closePlugin(`Selected ${node.name}`);
+  } else if (msg.type === 'findInstancesOfSelection') {
+    // Shortcut: search the current page for instances of the selected component(s)
+    const query = await instancesOfSelectionQuery();
+    if (!query) {
+      figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: 'Select a component, component set or instance first' });
+      return;
+    }
+    // Search the whole page, and give the selection back when nothing is selected instead
+    const selection = figma.currentPage.selection;
+    figma.currentPage.selection = [];
+    figma.ui.postMessage({ type: 'initQuery', query });
+    let selected = false;
+    try {
+      selected = await runSearch(query);
+    } finally {
+      if (!selected) figma.currentPage.selection = selection;
+    }
+  } else if (msg.type === 'cancel') {
     SEARCH_CANCELLED = true;
     figma.ui.postMessage({ type: 'searchComplete', count: 0, total: 0, message: 'Search cancelled' });
   } else if (msg.type === 'clearSelection') {
@@ -331,191 +1487,1357 @@ figma.ui.onmessage = async (msg: { type: string; query?: string }) => {
       await figma.clientStorage.setAsync(LAST_QUERY_KEY, msg.query ?? '');
       cachedLastQuery = msg.query ?? '';
     } catch {}
+  } else if (msg.type === 'saveQuery' && msg.name !== undefined) {
+    let result: { error: string | null; conflict?: TeamConflict };
+    try {
+      result = msg.team
+        ? saveTeamQuery(msg.name, msg.query ?? '', msg.previousName, msg.revision)
+        : { error: await saveQuery(msg.name, msg.query ?? '', msg.previousName) };
+    } catch (e) {
+      result = { error: `Could not save: ${e instanceof Error ? e.message : String(e)}` };
+    }
+    figma.ui.postMessage({ type: 'savedQueries', items: savedQueries, teamItems: readTeamQueries(), ...result });
+  } else if (msg.type === 'deleteQuery' && msg.name) {
+    let result: { error: string | null; conflict?: TeamConflict } = { error: null };
+    try {
+      if (msg.team) result = deleteTeamQuery(msg.name, msg.revision);
+      else result = { error: await deleteSavedQuery(msg.name) };
+    } catch (e) {
+      result = { error: `Could not delete: ${e instanceof Error ? e.message : String(e)}` };
+    }
+    figma.ui.postMessage({ type: 'savedQueries', items: savedQueries, teamItems: readTeamQueries(), ...result });
+  } else if (msg.type === 'listSavedQueries') {
+    figma.ui.postMessage({ type: 'savedQueries', items: savedQueries, teamItems: readTeamQueries() });
   } else if (msg.type === 'uiReady') {
-    // UI is ready: send back the last saved query (if any)
+    // UI is ready: send the saved-query libraries
+    await savedQueriesLoad; // never rejects: a failed load leaves the library empty
+    figma.ui.postMessage({ type: 'savedQueries', items: savedQueries, teamItems: readTeamQueries() });
+    // ...and the last saved query (if any)
     if (cachedLastQuery) {
       figma.ui.postMessage({ type: 'initQuery', query: cachedLastQuery });
     } else {
       try {
-        await lastQueryLoad;
-        if (cachedLastQuery) {
-          figma.ui.postMessage({ type: 'initQuery', query: cachedLastQuery });
-        }
-      } catch {}
+        await lastQueryLoad;
+        if (cachedLastQuery) {
+          figma.ui.postMessage({ type: 'initQuery', query: cachedLastQuery });
+        }
+      } catch {}
+    }
+  }
+};
+
+/**
+ * Determines the initial search scope based on current selection
+ * @param excludeSelectedLayers - When true (for /@ queries), excludes selected layers from search scope
+ * @returns Array of nodes to search within
+ */
+function getInitialScopes(excludeSelectedLayers: boolean = false): (SceneNode | PageNode | SectionNode)[] {
+  const sel = figma.currentPage.selection as SceneNode[];
+  if (!sel.length) return [figma.currentPage];
+
+  // Build search scope from selected layers and their ancestors
+  const scopes = new Map<string, SceneNode>();
+  
+  // Add all selected nodes and their valid ancestors
+  for (const n of sel) {
+    // Always add selected nodes as scope roots; matching is skipped for scope nodes when using child search
+    scopes.set(n.id, n);
+    
+    // For non-child-only searches, also add valid ancestors as additional scopes
+    if (!excludeSelectedLayers) {
+      let a: BaseNode | null = n;
+      while (
+        a && !(
+          a.type === 'PAGE' ||
+          a.type === 'SECTION' ||
+          a.type === 'FRAME' ||
+          a.type === 'INSTANCE' ||
+          a.type === 'COMPONENT' ||
+          a.type === 'COMPONENT_SET'
+        )
+      ) a = a.parent;
+      if (a && a.type !== 'PAGE') scopes.set((a as SceneNode).id, a as SceneNode);
+    }
+  }
+  
+  // Prune overlapping scopes: keep deepest nodes only (drop any scope that is an ancestor of another)
+  const all = Array.from(scopes.values());
+  const idSet = new Set(all.map(n => n.id));
+  const out = all.filter(n => {
+    let p: BaseNode | null = n.parent;
+    while (p && 'id' in p && (p as any).type !== 'PAGE') {
+      const pid = (p as any).id as string | undefined;
+      if (pid && idSet.has(pid)) return false; // ancestor present → drop this ancestor scope
+      p = (p as any).parent;
+    }
+    return true;
+  });
+  
+  // Return all scopes (no artificial limit to ensure all selected layers are searched)
+  return out.length ? out : [figma.currentPage];
+}
+
+/**
+ * Tokenizes a name query, respecting quoted segments and regex literals.
+ * Quoted tokens are matched literally and case-sensitively.
+ * Regex tokens (/pattern/flags) are tested against the full name.
+ * Unquoted tokens use case-insensitive substring matching.
+ * A leading dash (-Ghost, -"Exact Name", -/x$/) turns any form into an exclusion.
+ */
+type NameToken = { value: string; quoted: boolean; regex?: boolean; flags?: string; negated?: boolean };
+
+type RegexLiteral = { body: string; flags: string; end: number };
+
+const TYPE_SYMBOLS = ['#','$','@','&','%','=','!','?'];
+
+// Qualified symbols narrow a type: "@:group Icon" matches only groups, "@:auto" only Auto Layout frames
+const TYPE_QUALIFIERS: { [qualified: string]: string } = {
+  '@:group': 'GROUP',
+  '@:auto': 'AUTO_LAYOUT',
+  '%:vector': 'VECTOR',
+  '%:bool': 'BOOLEAN'
+};
+
+/**
+ * Reads a type qualifier ("@:group", "%:bool", ...) at the start of a part.
+ * @returns The qualifier as written, or null when the part starts with a plain symbol or a name
+ */
+function readTypeQualifier(part: string): string | null {
+  const m = part.trim().match(/^[@%]:[a-z]+(?=$|[\s[{:|])/i);
+  return m && TYPE_QUALIFIERS[m[0].toLowerCase()] ? m[0] : null;
+}
+
+/**
+ * Reads a /pattern/flags literal starting at `start` (which must be a slash).
+ * Returns null when the text does not form a literal: empty or whitespace-led body,
+ * no closing slash, or flags not followed by whitespace, a slash, a pipe, the closing
+ * parenthesis of a :has(...) group or the end.
+ */
+function readRegexLiteral(s: string, start: number): RegexLiteral | null {
+  if (s[start] !== '/') return null;
+  const first = s[start + 1];
+  if (first === undefined || first === '/' || /\s/.test(first)) return null;
+
+  let inClass = false;
+  for (let i = start + 1; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '\\') { i++; continue; }
+    if (ch === '[') inClass = true;
+    else if (ch === ']') inClass = false;
+    else if (ch === '/' && !inClass) {
+      let end = i + 1;
+      while (end < s.length && /[dgimsuy]/.test(s[end])) end++;
+      if (end < s.length && !/[\s/|)]/.test(s[end])) return null;
+      return { body: s.substring(start + 1, i), flags: s.substring(i + 1, end), end };
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the closing brace of a {...} property filter starting at `start`, skipping
+ * braces inside quoted values.
+ * @returns The index of the closing brace, or -1 when the group is not closed
+ */
+function findBraceGroupEnd(s: string, start: number): number {
+  let inQuote = false;
+  for (let i = start + 1; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '"') inQuote = !inQuote;
+    else if (!inQuote && ch === '}') return i;
+    else if (!inQuote && ch === '{') return -1;
+  }
+  return -1;
+}
+
+/**
+ * Finds the closing parenthesis of a :has(...) group starting at `start`, skipping
+ * parentheses inside quoted text and counting nested groups.
+ * @returns The index of the closing parenthesis, or -1 when there is no closed group
+ */
+function findHasGroupEnd(s: string, start: number): number {
+  if (!s.startsWith(':has(', start)) return -1;
+  let inQuote = false;
+  let depth = 0;
+  for (let i = start + 4; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '"') inQuote = !inQuote;
+    else if (!inQuote && ch === '/' && /[(\s|#$@&%=!?-]/.test(s[i - 1])) {
+      const lit = readRegexLiteral(s, i);
+      if (lit) i = lit.end - 1;
+    }
+    else if (!inQuote && ch === '(') depth++;
+    else if (!inQuote && ch === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Compiles a regex token. Stateful flags (g, y) are dropped so repeated test() calls
+ * stay independent. Throws with a readable message when the pattern is invalid.
+ */
+function compileRegexToken(token: NameToken): RegExp {
+  try {
+    return new RegExp(token.value, (token.flags || '').replace(/[gy]/g, ''));
+  } catch (e) {
+    const reason = e instanceof Error ? e.message.replace(/^Invalid regular expression:\s*(\/.*?\/[a-z]*:\s*)?/, '') : String(e);
+    throw new Error(`Invalid pattern /${token.value}/${token.flags || ''}: ${reason}`);
+  }
+}
+
+function tokenizeNameQuery(raw: string): NameToken[] {
+  const tokens: NameToken[] = [];
+  let current = '';
+  let inQuote = false;
+  let negated = false;
+
+  const pushToken = (quoted: boolean) => {
+    const value = quoted ? current : current.trim();
+    if (value.length) tokens.push(negated ? { value, quoted, negated } : { value, quoted });
+    current = '';
+    negated = false;
+  };
+
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '"') {
+      if (inQuote) {
+        pushToken(true);
+        inQuote = false;
+      } else {
+        if (current.trim().length) pushToken(false);
+        inQuote = true;
+      }
+      continue; // do not include quote characters in the token
+    }
+    if (!inQuote && ch === '/' && current.trim().length === 0) {
+      const lit = readRegexLiteral(raw, i);
+      if (lit) {
+        tokens.push({ value: lit.body, quoted: false, regex: true, flags: lit.flags, negated });
+        current = '';
+        negated = false;
+        i = lit.end - 1;
+        continue;
+      }
+    }
+    // A dash that starts a token negates it; a lone "-" stays a literal character
+    if (!inQuote && ch === '-' && !negated && current.length === 0) {
+      const next = raw[i + 1];
+      if (next !== undefined && next !== '-' && !/\s/.test(next)) {
+        negated = true;
+        continue;
+      }
+    }
+    if (!inQuote && /\s/.test(ch)) {
+      pushToken(false);
+      continue;
+    }
+    current += ch;
+  }
+
+  if (current.length) pushToken(inQuote);
+  return tokens;
+}
+
+/**
+ * True when an unquoted token holds an unescaped "*" or "?" wildcard.
+ */
+function isGlobToken(value: string): boolean {
+  return /(^|[^\\])[*?]/.test(value);
+}
+
+/**
+ * Drops the backslash from escaped wildcards ("\*", "\?") and slashes ("\/") so they
+ * match literally.
+ */
+function unescapeGlob(value: string): string {
+  return value.replace(/\\([*?/])/g, '$1');
+}
+
+/**
+ * Compiles a glob into a case-insensitive regex anchored to the full name: "*" matches
+ * any run of characters, "?" exactly one, and "\*" / "\?" / "\/" the characters themselves.
+ */
+function compileGlob(glob: string, caseSensitive: boolean = false): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '\\' && (glob[i + 1] === '*' || glob[i + 1] === '?' || glob[i + 1] === '/')) {
+      source += '\\' + glob[++i];
+    } else if (ch === '*') {
+      source += '[\\s\\S]*';
+    } else if (ch === '?') {
+      source += '[\\s\\S]';
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, caseSensitive ? '' : 'i');
+}
+
+/**
+ * Fewest edits (insertions, deletions, substitutions or swaps of neighbours) that turn
+ * `token` into some run of characters inside `text`, e.g. 1 for "buton" in "button primary".
+ */
+function substringEditDistance(token: string, text: string): number {
+  // Rows over text positions; a free start anywhere in text makes this a substring search
+  let prevPrev: number[] = [];
+  let prev: number[] = new Array(text.length + 1).fill(0);
+  for (let i = 1; i <= token.length; i++) {
+    const row: number[] = [i];
+    for (let j = 1; j <= text.length; j++) {
+      const cost = token[i - 1] === text[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && token[i - 1] === text[j - 2] && token[i - 2] === text[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+    }
+    prevPrev = prev;
+    prev = row;
+  }
+  return Math.min(...prev);
+}
+
+/**
+ * Scores an unquoted token against a name for --z (both lowercase unless --c): 1 when the name
+ * contains it, less for every typo it takes to find it (one for 4-6 letters, two for
+ * longer tokens), and 0 when it is too far off. Tokens under 4 letters must match exactly.
+ */
+function fuzzyTokenScore(token: string, lower: string): number {
+  if (lower.indexOf(token) !== -1) return 1;
+  const allowed = token.length < 4 ? 0 : token.length <= 6 ? 1 : 2;
+  if (!allowed) return 0;
+  const distance = substringEditDistance(token, lower);
+  return distance <= allowed ? 1 - distance / (token.length + 1) : 0;
+}
+
+const isLetter = (c: string) => c.toLowerCase() !== c.toUpperCase();
+const isDigit = (c: string) => c >= '0' && c <= '9';
+const isUpper = (c: string) => isLetter(c) && c === c.toUpperCase();
+
+/**
+ * Whether a name has a word boundary before index `i`, following how layers are usually
+ * named: at either end, next to anything but a letter or digit (" ", "/", "-", "_", ...),
+ * between letters and digits ("Icon24"), and at camelCase humps ("tabBar", "HTMLParser").
+ */
+function isWordBoundary(name: string, i: number): boolean {
+  if (i <= 0 || i >= name.length) return true;
+  const a = name[i - 1];
+  const b = name[i];
+  if (!(isLetter(a) || isDigit(a)) || !(isLetter(b) || isDigit(b))) return true;
+  if (isDigit(a) !== isDigit(b)) return true;
+  if (isUpper(b) && !isUpper(a)) return true;
+  return isUpper(a) && isUpper(b) && i + 1 < name.length && isLetter(name[i + 1]) && !isUpper(name[i + 1]);
+}
+
+/**
+ * Whether `token` occurs in `text` (the name as compared) starting and ending on word
+ * boundaries.
+ * @param atBoundary - Whether text has a word boundary before an index
+ */
+function containsWord(text: string, token: string, atBoundary: (i: number) => boolean): boolean {
+  for (let at = text.indexOf(token); at !== -1; at = text.indexOf(token, at + 1)) {
+    if (atBoundary(at) && atBoundary(at + token.length)) return true;
+  }
+  return false;
+}
+
+/**
+ * Folds a name for --n: lowercase, without accents, and without " ", "-" and "_", so
+ * "Primary Button", "primary-button", "PrimaryButton" and "Primary_Bütton" all read
+ * "primarybutton". Also returns where its words start and end (separators and the
+ * boundaries of isWordBoundary), which --w checks against.
+ */
+function normalizeName(name: string): { text: string; bounds: Set<number> } {
+  const plain = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  const bounds = new Set<number>([0]);
+  let text = '';
+  for (let i = 0; i < plain.length; i++) {
+    const ch = plain[i];
+    if (ch === '-' || ch === '_' || /\s/.test(ch)) {
+      bounds.add(text.length);
+      continue;
+    }
+    if (isWordBoundary(plain, i)) bounds.add(text.length);
+    text += ch.toLowerCase();
+  }
+  bounds.add(text.length);
+  return { text, bounds };
+}
+
+function isFullyQuoted(raw: string): boolean {
+  const trimmed = raw.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2;
+}
+
+/**
+ * Builds a reusable scorer for a name query. Results are cached per query string.
+ * - Quoted tokens: literal, case-sensitive substring.
+ * - Unquoted tokens: case-insensitive substring; with --z also typo-tolerant, scoring
+ *   below 1 for each typo (see fuzzyTokenScore). --w only accepts whole words (see
+ *   isWordBoundary) and --c keeps case; a typo'd match only follows --c. --n compares
+ *   normalized names instead (see normalizeName) and overrides --c.
+ * - Regex tokens: compiled once per query and tested against the full name.
+ * - Wildcards: when an unquoted token has "*" or "?", the unquoted tokens are joined
+ *   into one glob matched against the full name ("Row ?" matches "Row 1"), normalized
+ *   with --n.
+ * - A single fully quoted token matches the entire name (exact match).
+ * - Negated tokens of any form must not match; a query of only exclusions matches
+ *   every name that avoids them.
+ * @returns A function giving 0 for names that don't match, and up to 1 for exact matches
+ */
+function buildNameScorer(q: string): (name: string) => number {
+  const key = q + nameRulesKey();
+  if (nameScorerCache.has(key)) return nameScorerCache.get(key)!;
+
+  const fuzzy = FUZZY;
+  const wholeWord = WHOLE_WORD;
+  const normalize = NORMALIZE;
+  const caseSensitive = CASE_SENSITIVE && !normalize;
+  const fold = (v: string) => normalize ? normalizeName(v).text : caseSensitive ? v : v.toLowerCase();
+  const tokens = tokenizeNameQuery(q);
+  const hasTokens = tokens.length > 0;
+  const exact = tokens.length === 1 && tokens[0].quoted && !tokens[0].negated && isFullyQuoted(q);
+  const required = tokens.filter(t => !t.negated);
+  const excluded = tokens.filter(t => t.negated);
+  const quoted = required.filter(t => t.quoted).map(t => t.value);
+  const plain = required.filter(t => !t.quoted && !t.regex).map(t => t.value);
+  const globbed = plain.some(isGlobToken);
+  const unquoted = globbed ? [] : plain.map(v => fold(unescapeGlob(v))).filter(v => v);
+  const patterns = required.filter(t => t.regex).map(compileRegexToken);
+  // Wildcards are tested against the normalized name with --n
+  const globs = globbed ? [compileGlob(normalize ? fold(plain.join(' ')) : plain.join(' '), caseSensitive)] : [];
+  const notQuoted = excluded.filter(t => t.quoted).map(t => t.value);
+  const notPlain = excluded.filter(t => !t.quoted && !t.regex).map(t => t.value);
+  const notUnquoted = notPlain.filter(v => !isGlobToken(v)).map(v => fold(unescapeGlob(v))).filter(v => v);
+  const notPatterns = excluded.filter(t => t.regex).map(compileRegexToken);
+  const notGlobs = notPlain.filter(isGlobToken).map(v => compileGlob(normalize ? fold(v) : v, caseSensitive));
+
+  const scorer = (name: string): number => {
+    if (!hasTokens) return 1;
+    if (exact) return name === quoted[0] ? 1 : 0; // fully quoted single token → exact, case-sensitive
+
+    const folded = normalize ? normalizeName(name) : null;
+    const text = folded ? folded.text : fold(name);
+    const atBoundary = folded ? (i: number) => folded.bounds.has(i) : (i: number) => isWordBoundary(name, i);
+    const contains = (part: string) => wholeWord ? containsWord(text, part, atBoundary) : text.indexOf(part) !== -1;
+    let score = 1;
+    for (const lit of quoted) {
+      if (!name.includes(lit)) return 0;
+    }
+    for (const part of unquoted) {
+      if (contains(part)) continue;
+      if (!fuzzy || (wholeWord && text.indexOf(part) !== -1)) return 0; // part of a longer word isn't a typo
+      score *= fuzzyTokenScore(part, text);
+      if (!score) return 0;
+    }
+    for (const re of patterns) {
+      if (!re.test(name)) return 0;
+    }
+    for (const re of globs) {
+      if (!re.test(folded ? text : name)) return 0;
+    }
+    for (const lit of notQuoted) {
+      if (name.includes(lit)) return 0;
+    }
+    for (const part of notUnquoted) {
+      if (contains(part)) return 0;
+    }
+    for (const re of notPatterns) {
+      if (re.test(name)) return 0;
+    }
+    for (const re of notGlobs) {
+      if (re.test(folded ? text : name)) return 0;
+    }
+    return score;
+  };
+
+  nameScorerCache.set(key, scorer);
+  return scorer;
+}
+
+/**
+ * Builds a reusable matcher for a name query (see buildNameScorer for the rules).
+ */
+function buildNameMatcher(q: string): (name: string) => boolean {
+  const key = q + nameRulesKey();
+  if (nameMatcherCache.has(key)) return nameMatcherCache.get(key)!;
+  const score = buildNameScorer(q);
+  const matcher = (name: string) => score(name) > 0;
+  nameMatcherCache.set(key, matcher);
+  return matcher;
+}
+
+// Type filtering functions - determine if a node matches a specific search type
+const gateSection = (n: SceneNode) => n.type === 'SECTION';
+const gateFrame   = (n: SceneNode) => n.type === 'FRAME' || n.type === 'GROUP';
+const gateInst    = (n: SceneNode) => n.type === 'INSTANCE';
+const gateComp    = (n: SceneNode) => n.type === 'COMPONENT' || n.type === 'COMPONENT_SET';
+const gateShape   = (n: SceneNode) => (
+  n.type === 'RECTANGLE' || n.type === 'ELLIPSE' || n.type === 'POLYGON' ||
+  n.type === 'STAR' || n.type === 'LINE' || n.type === 'VECTOR' || n.type === 'BOOLEAN_OPERATION'
+);
+const gateGroup   = (n: SceneNode) => n.type === 'GROUP';
+const gateAuto    = (n: SceneNode) => n.type === 'FRAME' && typeof n.layoutMode === 'string' && n.layoutMode !== 'NONE';
+const gateVector  = (n: SceneNode) => n.type === 'VECTOR';
+const gateBoolean = (n: SceneNode) => n.type === 'BOOLEAN_OPERATION';
+const gateImage   = (n: SceneNode) => {
+  const anyFill = (x:any)=> Array.isArray(x) && x.some((f:any)=>f?.type === 'IMAGE');
+  return ('fills' in n && anyFill((n as any).fills));
+};
+const gateText    = (n: SceneNode) => n.type === 'TEXT';
+
+/**
+ * Returns the appropriate type filter function based on search type
+ * @param type - The search type (SECTION, FRAME, INSTANCE, etc.)
+ * @returns A function that filters nodes by the specified type
+ */
+function gateFor(type: string): (n: SceneNode)=>boolean {
+  if (type === 'SECTION')   return gateSection;
+  if (type === 'FRAME')     return gateFrame;
+  if (type === 'INSTANCE')  return gateInst;
+  if (type === 'COMPONENT') return gateComp;
+  if (type === 'SHAPE')     return gateShape;
+  if (type === 'IMAGE')     return gateImage;
+  if (type === 'TEXT')      return gateText;
+  if (type === 'GROUP')     return gateGroup;
+  if (type === 'AUTO_LAYOUT') return gateAuto;
+  if (type === 'VECTOR')    return gateVector;
+  if (type === 'BOOLEAN')   return gateBoolean;
+  return () => true; // ANY - matches all node types
+}
+
+/**
+ * Attribute filters written as bracketed predicates after a part's name, e.g.
+ * "@Card[w>=320][layout=vertical]" or "%[opacity<1]". Keys are case-insensitive.
+ */
+type AttributeKind = 'number' | 'boolean' | 'string';
+type AttributeReader = { kind: AttributeKind; read: (n: SceneNode) => number | boolean | string | undefined };
+
+const numberProp = (prop: string) => (n: SceneNode): number | undefined => {
+  const v = (n as unknown as { [prop: string]: unknown })[prop];
+  return typeof v === 'number' ? v : undefined;
+};
+
+const ATTRIBUTES: { [key: string]: AttributeReader } = {
+  w:        { kind: 'number',  read: numberProp('width') },
+  h:        { kind: 'number',  read: numberProp('height') },
+  x:        { kind: 'number',  read: numberProp('x') },
+  y:        { kind: 'number',  read: numberProp('y') },
+  opacity:  { kind: 'number',  read: numberProp('opacity') },
+  rotation: { kind: 'number',  read: numberProp('rotation') },
+  visible:  { kind: 'boolean', read: n => n.visible },
+  locked:   { kind: 'boolean', read: n => n.locked },
+  layout:   { kind: 'string',  read: n => ('layoutMode' in n ? String(n.layoutMode) : 'NONE') },
+  children: { kind: 'number',  read: n => ('children' in n ? n.children.length : 0) },
+};
+const ATTRIBUTE_ALIASES: { [alias: string]: string } = {
+  width: 'w', height: 'h', layoutmode: 'layout', childcount: 'children', kids: 'children',
+};
+
+function resolveAttribute(key: string): string | null {
+  const k = key.toLowerCase();
+  if (ATTRIBUTES[k]) return k;
+  return ATTRIBUTE_ALIASES[k] || null;
+}
+
+/**
+ * Compiles one bracketed predicate ("w>=320", "layout=vertical", "!locked").
+ * A bare boolean key means "= true"; a leading "!" negates it.
+ * Throws with a readable message for unknown keys, operators or values.
+ */
+function compilePredicate(text: string): (n: SceneNode) => boolean {
+  const m = text.match(/^\s*(!?)\s*([A-Za-z][\w-]*)\s*(?:(<=|>=|!=|=|<|>)\s*(.*?))?\s*$/);
+  const key = m ? resolveAttribute(m[2]) : null;
+  if (!m || !key) throw new Error(`Unknown attribute filter [${text}]`);
+  const attr = ATTRIBUTES[key];
+  const op = m[3] || '=';
+
+  if (!m[3]) {
+    if (attr.kind !== 'boolean') throw new Error(`Attribute filter [${text}] needs a comparison (e.g. [${key}>0])`);
+    const want = !m[1];
+    return n => attr.read(n) === want;
+  }
+  if (m[1]) throw new Error(`Attribute filter [${text}] cannot combine "!" with a comparison`);
+  const raw = m[4].replace(/^"(.*)"$/, '$1');
+
+  if (attr.kind === 'number') {
+    const want = parseFloat(raw);
+    if (!isFinite(want)) throw new Error(`Attribute filter [${text}] expects a number`);
+    return n => {
+      const v = attr.read(n);
+      if (typeof v !== 'number') return false;
+      const eq = Math.abs(v - want) < 0.001;
+      if (op === '=') return eq;
+      if (op === '!=') return !eq;
+      if (op === '<') return v < want && !eq;
+      if (op === '<=') return v < want || eq;
+      if (op === '>') return v > want && !eq;
+      return v > want || eq;
+    };
+  }
+  if (op !== '=' && op !== '!=') throw new Error(`Attribute filter [${text}] only supports = and !=`);
+  if (attr.kind === 'boolean') {
+    const lower = raw.toLowerCase();
+    if (lower !== 'true' && lower !== 'false') throw new Error(`Attribute filter [${text}] expects true or false`);
+    const want = lower === 'true';
+    return n => (attr.read(n) === want) === (op === '=');
+  }
+  const want = raw.toUpperCase();
+  return n => (String(attr.read(n)).toUpperCase() === want) === (op === '=');
+}
+
+// Style slots and the node property holding each style id; "style" alone means any slot
+const STYLE_FIELDS: { [kind: string]: string } = {
+  fill: 'fillStyleId', stroke: 'strokeStyleId', text: 'textStyleId', effect: 'effectStyleId', grid: 'gridStyleId',
+};
+// Bound variable fields per kind; "var" alone means any bound field
+const VARIABLE_FIELDS: { [kind: string]: string } = {
+  fill: 'fills', stroke: 'strokes', effect: 'effects',
+};
+
+// Any "<kind>-style" or "<kind>-var" key is read as a filter, so unknown kinds are reported
+const STYLE_FILTER_PATTERN = /^\s*(no-)?(?:([a-z]+)-)?(style|var)\s*(?::\s*(.*?))?\s*$/i;
+
+function isStyleFilter(body: string): boolean {
+  return STYLE_FILTER_PATTERN.test(body);
+}
+
+/**
+ * Collects the style ids a node uses, for one slot or all of them. Text with mixed
+ * styles reports the style of every styled range.
+ */
+function nodeStyleIds(n: SceneNode, kind: string | null): string[] {
+  const ids: string[] = [];
+  const fields = kind ? [STYLE_FIELDS[kind]] : Object.keys(STYLE_FIELDS).map(k => STYLE_FIELDS[k]);
+  for (const field of fields) {
+    if (!(field in n)) continue;
+    const value = (n as unknown as { [field: string]: unknown })[field];
+    if (typeof value === 'string') {
+      if (value) ids.push(value);
+    } else if (value === figma.mixed && n.type === 'TEXT') {
+      const segmentField = field as 'fillStyleId' | 'textStyleId';
+      try {
+        for (const seg of n.getStyledTextSegments([segmentField])) {
+          const id = seg[segmentField];
+          if (typeof id === 'string' && id) ids.push(id);
+        }
+      } catch {
+        // Ranges that can't be read (e.g. a missing font) add no ids
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Collects the variable ids bound to a node, for one kind of field or all of them.
+ * Paint-level color bindings count as fill or stroke bindings.
+ */
+function nodeVariableIds(n: SceneNode, kind: string | null): string[] {
+  const ids: string[] = [];
+  const collect = (value: unknown) => {
+    const alias = value as VariableAlias | null | undefined;
+    if (Array.isArray(value)) value.forEach(collect);
+    else if (alias && alias.type === 'VARIABLE_ALIAS' && typeof alias.id === 'string') ids.push(alias.id);
+  };
+  const bound = (n as { boundVariables?: { [field: string]: unknown } }).boundVariables || {};
+  const fields = kind ? [VARIABLE_FIELDS[kind]] : Object.keys(bound);
+  for (const field of fields) collect(bound[field]);
+  for (const paintField of ['fills', 'strokes']) {
+    if (kind && VARIABLE_FIELDS[kind] !== paintField) continue;
+    const paints = (n as unknown as { [field: string]: unknown })[paintField];
+    if (Array.isArray(paints)) for (const paint of paints) collect(paint?.boundVariables?.color);
+  }
+  return ids;
+}
+
+/**
+ * Compiles a style or variable filter: [style:"Body/Regular"], [fill-var:color/bg],
+ * [text-style] (any text style), [no-style] (no style in any slot), [no-fill-var].
+ * Values use the name matching rules and are compared to the names resolved by
+ * primeStyleNames; ids that could not be resolved never match a value.
+ */
+function compileStyleFilter(text: string): (n: SceneNode) => boolean {
+  const m = text.match(STYLE_FILTER_PATTERN)!;
+  const negated = !!m[1];
+  const kind = m[2] ? m[2].toLowerCase() : null;
+  const isVariable = m[3].toLowerCase() === 'var';
+  const value = m[4];
+  const fields = isVariable ? VARIABLE_FIELDS : STYLE_FIELDS;
+  if (kind && !fields[kind]) {
+    const keys = Object.keys(fields).map(k => `${k}-${m[3].toLowerCase()}`).concat(m[3].toLowerCase());
+    throw new Error(`Style filter [${text}] has an unknown key "${kind}-${m[3]}" (use ${keys.join(', ')})`);
+  }
+  if (value !== undefined && !value) throw new Error(`Style filter [${text}] needs a name after ":"`);
+  if (negated && value !== undefined) throw new Error(`Style filter [${text}] cannot combine "no-" with a name`);
+
+  const idsOf = (n: SceneNode) => (isVariable ? nodeVariableIds(n, kind) : nodeStyleIds(n, kind));
+  if (value === undefined) return n => (idsOf(n).length > 0) !== negated;
+
+  const names = isVariable ? variableNameCache : styleNameCache;
+  const nameMatches = buildNameMatcher(value);
+  return n => idsOf(n).some(id => {
+    const name = names.get(id);
+    return typeof name === 'string' && nameMatches(name);
+  });
+}
+
+/**
+ * Separates bracketed predicates, {...} property filters and :has(...) subqueries from
+ * a name query. Brackets inside quotes or regex literals are left alone, as are brackets
+ * that do not look like a filter (a bare word that is not a boolean attribute, e.g.
+ * "Icon [old]") and braces without an "=" or ":" inside.
+ * @returns The name query without filters, the raw predicate texts, property bodies and subqueries
+ */
+function extractFilters(q: string): { name: string; predicates: string[]; properties: string[]; has: string[] } {
+  const predicates: string[] = [];
+  const properties: string[] = [];
+  const has: string[] = [];
+  let name = '';
+  let inQuote = false;
+
+  for (let i = 0; i < q.length; i++) {
+    const ch = q[i];
+    if (ch === '"') {
+      inQuote = !inQuote;
+      name += ch;
+      continue;
+    }
+    if (!inQuote && ch === '/' && /(^|\s|-)$/.test(name)) {
+      const lit = readRegexLiteral(q, i);
+      if (lit) {
+        name += q.substring(i, lit.end);
+        i = lit.end - 1;
+        continue;
+      }
+    }
+    if (!inQuote && ch === '[') {
+      const close = q.indexOf(']', i + 1);
+      const body = close === -1 ? '' : q.substring(i + 1, close);
+      const bare = body.trim().match(/^!?\s*([A-Za-z][\w-]*)$/);
+      const isFilter = isStyleFilter(body) || /(<=|>=|!=|=|<|>)/.test(body) ||
+        (bare !== null && resolveAttribute(bare[1]) !== null && ATTRIBUTES[resolveAttribute(bare[1])!].kind === 'boolean');
+      if (close !== -1 && isFilter) {
+        predicates.push(body);
+        name += ' ';
+        i = close;
+        continue;
+      }
+    }
+    if (!inQuote && ch === '{') {
+      const close = findBraceGroupEnd(q, i);
+      const body = close === -1 ? '' : q.substring(i + 1, close);
+      if (close !== -1 && /[=:]/.test(body)) {
+        properties.push(body);
+        name += ' ';
+        i = close;
+        continue;
+      }
+    }
+    if (!inQuote && ch === ':') {
+      const close = findHasGroupEnd(q, i);
+      if (close !== -1) {
+        has.push(q.substring(i + 5, close).trim());
+        name += ' ';
+        i = close;
+        continue;
+      }
+    }
+    name += ch;
+  }
+  return { name: name.trim(), predicates, properties, has };
+}
+
+/**
+ * Main component details of an instance, resolved asynchronously by primeMainComponents.
+ * Set name and key are empty when the main component is not a variant.
+ */
+type MainComponentInfo = { name: string; key: string; setName: string; setKey: string };
+
+type PropertyFilter = {
+  props: (props: { [key: string]: unknown }) => boolean;
+  component: ((info: MainComponentInfo | null | undefined) => boolean) | null;
+};
+
+/**
+ * Compiles a {...} filter body ("State=Hover, Size!=Large", main:"Logo") into checks.
+ * - Name=Value / Name!=Value compare component or variant properties case-insensitively;
+ *   the "#id" suffix Figma adds to non-variant property names is ignored, and boolean
+ *   properties compare as true/false.
+ * - main: matches the main component name (or its set name for variants), set: the
+ *   component set name, both with name-query semantics; key: the component or set key.
+ */
+function compilePropertyFilter(body: string): PropertyFilter {
+  const entries: { key: string; value: string; negate: boolean }[] = [];
+  const componentChecks: ((info: MainComponentInfo) => boolean)[] = [];
+  const items: string[] = [];
+  let current = '';
+  let inQuote = false;
+  for (const ch of body) {
+    if (ch === '"') inQuote = !inQuote;
+    if (ch === ',' && !inQuote) {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  items.push(current);
+
+  for (const raw of items) {
+    if (!raw.trim()) continue;
+    const c = raw.match(/^\s*(main|set|key)\s*:\s*(.*?)\s*$/i);
+    if (c) {
+      const kind = c[1].toLowerCase();
+      if (!c[2]) throw new Error(`Invalid property filter {${body.trim()}}: ${kind}: needs a value`);
+      if (kind === 'key') {
+        const key = c[2].replace(/^"(.*)"$/, '$1');
+        componentChecks.push(info => info.key === key || (!!info.setKey && info.setKey === key));
+      } else {
+        const matches = buildNameMatcher(c[2]);
+        componentChecks.push(kind === 'set'
+          ? info => !!info.setName && matches(info.setName)
+          : info => matches(info.name) || (!!info.setName && matches(info.setName)));
+      }
+      continue;
+    }
+    const m = raw.match(/^\s*("?)(.+?)\1\s*(!=|=)\s*("?)(.*?)\4\s*$/);
+    if (!m || !m[2].trim()) throw new Error(`Invalid property filter {${body.trim()}}: expected Name=Value`);
+    entries.push({ key: m[2].trim().toLowerCase(), value: m[5].trim().toLowerCase(), negate: m[3] === '!=' });
+  }
+  const props = (props: { [key: string]: unknown }): boolean => {
+    if (!entries.length) return true;
+    const lookup = new Map<string, string>();
+    for (const k of Object.keys(props)) {
+      const v = props[k];
+      const value = (v && typeof v === 'object' && 'value' in (v as object)) ? (v as { value: unknown }).value : v;
+      lookup.set(k.replace(/#[^#]*$/, '').trim().toLowerCase(), String(value).toLowerCase());
+    }
+    for (const e of entries) {
+      const has = lookup.get(e.key);
+      const eq = has !== undefined && has === e.value;
+      if (e.negate ? eq : !eq) return false;
+    }
+    return true;
+  };
+  const component = componentChecks.length
+    ? (info: MainComponentInfo | null | undefined) => !!info && componentChecks.every(check => check(info))
+    : null;
+  return { props, component };
+}
+
+// Property maps read defensively: Figma throws for instances whose main component is missing
+const instanceProps = (n: SceneNode): { [key: string]: unknown } => {
+  try { return (n as InstanceNode).componentProperties || {}; } catch { return {}; }
+};
+const variantProps = (n: SceneNode): { [key: string]: unknown } => {
+  try { return (n as ComponentNode).variantProperties || {}; } catch { return {}; }
+};
+
+/**
+ * Returns the type gate for a part with {...} property filters: instances match on their
+ * component properties (variants included) and their primed main component, components
+ * on their variant properties and component sets when any variant child matches.
+ * Other types cannot carry properties.
+ */
+function gateWithProperties(type: string, bodies: string[]): (n: SceneNode) => boolean {
+  const filters = bodies.map(compilePropertyFilter);
+  const all = (props: { [key: string]: unknown }) => filters.every(f => f.props(props));
+  const componentChecks = filters
+    .map(f => f.component)
+    .filter(c => c !== null) as ((info: MainComponentInfo | null | undefined) => boolean)[];
+  if (componentChecks.length && type !== 'INSTANCE' && type !== 'ANY') {
+    throw new Error('main:, set: and key: filters only apply to instances (!)');
+  }
+  const instanceGate = (n: SceneNode) => gateInst(n) && all(instanceProps(n)) &&
+    componentChecks.every(check => check(mainComponentCache.get(n.id)));
+  const componentGate = (n: SceneNode) => {
+    if (!gateComp(n) || componentChecks.length) return false;
+    if (n.type === 'COMPONENT') return all(variantProps(n));
+    return (n as ComponentSetNode).children.some(v => v.type === 'COMPONENT' && all(variantProps(v)));
+  };
+  if (type === 'INSTANCE') return instanceGate;
+  if (type === 'COMPONENT') return componentGate;
+  if (type === 'ANY') return (n: SceneNode) => instanceGate(n) || componentGate(n);
+  throw new Error('Property filters {...} only apply to instances (!) and components (?)');
+}
+
+function usesMainComponentFilter(q: string): boolean {
+  return /\{[^}]*\b(?:main|set|key)\s*:/i.test(q);
+}
+
+/**
+ * Resolves the main component of every instance under the given scopes (and of the
+ * scopes themselves) into mainComponentCache. getMainComponentAsync cannot be awaited
+ * inside findAll or walk callbacks, so parts with main:, set: or key: filters prime the
+ * cache before traversal and the node matcher reads it synchronously.
+ */
+async function primeMainComponents(scopes: (SceneNode | PageNode | SectionNode)[], modifiers?: SearchModifiers): Promise<void> {
+  const pending: InstanceNode[] = [];
+  for (const scope of scopes) {
+    if (scope.type === 'INSTANCE') pending.push(scope);
+    if ('findAllWithCriteria' in scope) {
+      pending.push(...scope.findAllWithCriteria({ types: ['INSTANCE'] }));
+    }
+  }
+  const batchSize = getYieldEvery(modifiers);
+  for (let i = 0; i < pending.length; i += batchSize) {
+    if (SEARCH_CANCELLED) return;
+    const batch = pending.slice(i, i + batchSize).filter(inst => !mainComponentCache.has(inst.id));
+    // eslint-disable-next-line no-await-in-loop
+    await Promise.all(batch.map(async inst => {
+      let info: MainComponentInfo | null = null;
+      try {
+        const main = await inst.getMainComponentAsync();
+        if (main) {
+          const set = main.parent && main.parent.type === 'COMPONENT_SET' ? main.parent as ComponentSetNode : null;
+          info = { name: main.name, key: main.key, setName: set ? set.name : '', setKey: set ? set.key : '' };
+        }
+      } catch {
+        info = null; // missing or inaccessible main component never matches
+      }
+      mainComponentCache.set(inst.id, info);
+    }));
+    // eslint-disable-next-line no-await-in-loop
+    await yieldControl();
+  }
+}
+
+function usesStyleFilter(q: string): boolean {
+  return /\[\s*(?:no-)?(?:(?:fill|stroke|text|effect|grid)-)?(?:style|var)\s*:/i.test(q);
+}
+
+/**
+ * Resolves the names of every style and bound variable used under the given scopes (and
+ * by the scopes themselves) into styleNameCache and variableNameCache, so [style:...]
+ * and [...-var:...] filters can compare names synchronously during traversal.
+ */
+async function primeStyleNames(
+  scopes: (SceneNode | PageNode | SectionNode)[],
+  modifiers?: SearchModifiers,
+  descendants: boolean = true
+): Promise<void> {
+  const styleIds = new Set<string>();
+  const variableIds = new Set<string>();
+  const note = (n: SceneNode) => {
+    for (const id of nodeStyleIds(n, null)) if (!styleNameCache.has(id)) styleIds.add(id);
+    for (const id of nodeVariableIds(n, null)) if (!variableNameCache.has(id)) variableIds.add(id);
+  };
+  for (const scope of scopes) {
+    if (scope.type !== 'PAGE') note(scope as SceneNode);
+    if (descendants && 'findAll' in scope) scope.findAll((n: SceneNode) => { note(n); return false; });
+  }
+
+  const pending: { id: string; variable: boolean }[] = [];
+  styleIds.forEach(id => pending.push({ id, variable: false }));
+  variableIds.forEach(id => pending.push({ id, variable: true }));
+  const batchSize = getYieldEvery(modifiers);
+  for (let i = 0; i < pending.length; i += batchSize) {
+    if (SEARCH_CANCELLED) return;
+    // eslint-disable-next-line no-await-in-loop
+    await Promise.all(pending.slice(i, i + batchSize).map(async ({ id, variable }) => {
+      let name: string | null = null;
+      try {
+        const found = variable ? await figma.variables.getVariableByIdAsync(id) : await figma.getStyleByIdAsync(id);
+        name = found ? found.name : null;
+      } catch {
+        name = null; // missing or inaccessible styles and variables never match a name
+      }
+      (variable ? variableNameCache : styleNameCache).set(id, name);
+    }));
+    // eslint-disable-next-line no-await-in-loop
+    await yieldControl();
+  }
+}
+
+function usesHasFilter(q: string): boolean {
+  return q.indexOf(':has(') !== -1;
+}
+
+/**
+ * Collects the :has(...) subqueries of every alternative in a part.
+ */
+function getHasSubqueries(type: string, name: string): string[] {
+  return resolveAlternatives(type, name).reduce<string[]>((all, alt) => all.concat(extractFilters(alt.name).has), []);
+}
+
+/**
+ * Removes :has(...) groups from a part so the remaining filters can pick candidates.
+ */
+function stripHasGroups(q: string): string {
+  let out = '';
+  let inQuote = false;
+  for (let i = 0; i < q.length; i++) {
+    const ch = q[i];
+    if (ch === '"') inQuote = !inQuote;
+    const end = !inQuote && ch === ':' ? findHasGroupEnd(q, i) : -1;
+    if (end !== -1) {
+      out += ' ';
+      i = end;
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+}
+
+/**
+ * Checks whether a node's subtree matches a :has(...) subquery. The subquery is a path
+ * of its own: each part runs through searchChildren from the previous part's matches,
+ * "//" restricts a part to direct children, and the last part stops at the first hit.
+ */
+async function subqueryMatches(node: SceneNode, subquery: string, modifiers?: SearchModifiers): Promise<boolean> {
+  const parts = parseSubquery(subquery);
+
+  // Hidden layers follow the outer --h/--a flags; --f and --fe never apply inside
+  const innerModifiers: SearchModifiers = {
+    firstMatch: false,
+    firstMatchEach: false,
+    hiddenOnly: !!modifiers?.hiddenOnly,
+    allLayers: !!modifiers?.allLayers,
+    cleanQuery: subquery
+  };
+  const firstHitModifiers: SearchModifiers = { ...innerModifiers, firstMatchEach: true };
+
+  let scopes: (SceneNode | PageNode | SectionNode)[] = [node];
+  for (let k = 0; k < parts.length; k++) {
+    const isLast = k === parts.length - 1;
+    const { type, name } = parts[k];
+    if (usesMainComponentFilter(name)) await primeMainComponents(scopes, modifiers);
+    if (usesStyleFilter(name)) await primeStyleNames(scopes, modifiers);
+    if (usesHasFilter(name)) await primeHasFilters(scopes, type, name, modifiers);
+    const next: (SceneNode | PageNode | SectionNode)[] = [];
+    for (const scope of scopes) {
+      if (SEARCH_CANCELLED) return false;
+      // The outer part's depth bound must not leak into the subquery
+      const outerBound = DEPTH_BOUND;
+      DEPTH_BOUND = parts[k].isDirectChild ? null : parts[k].depth;
+      let found: SearchResult[];
+      try {
+        found = await searchChildren(scope, type, name, isLast, isLast ? firstHitModifiers : innerModifiers, parts[k].isDirectChild, false);
+      } finally {
+        DEPTH_BOUND = outerBound;
+      }
+      if (isLast && found.length) return true;
+      next.push(...found.map(r => r.node));
     }
+    scopes = next;
+    if (!scopes.length) return false;
   }
-};
+  return false;
+}
 
 /**
- * Determines the initial search scope based on current selection
- * @param excludeSelectedLayers - When true (for /@ queries), excludes selected layers from search scope
- * @returns Array of nodes to search within
+ * Evaluates a part's :has(...) subqueries into hasMatchCache for every candidate: the
+ * scopes themselves and, unless `descendants` is false, every node under them that
+ * matches the rest of the part. Like main components, the answers are async
+ * (searchChildren) while the node matcher that reads them is not.
  */
-function getInitialScopes(excludeSelectedLayers: boolean = false): (SceneNode | PageNode | SectionNode)[] {
-  const sel = figma.currentPage.selection as SceneNode[];
-  if (!sel.length) return [figma.currentPage];
+async function primeHasFilters(
+  scopes: (SceneNode | PageNode | SectionNode)[],
+  type: string,
+  name: string,
+  modifiers?: SearchModifiers,
+  descendants: boolean = true
+): Promise<void> {
+  const subqueries = getHasSubqueries(type, name);
+  if (!subqueries.length) return;
+  const outer = buildNodeMatcher(type, stripHasGroups(name));
 
-  // Build search scope from selected layers and their ancestors
-  const scopes = new Map<string, SceneNode>();
-  
-  // Add all selected nodes and their valid ancestors
-  for (const n of sel) {
-    // Always add selected nodes as scope roots; matching is skipped for scope nodes when using child search
-    scopes.set(n.id, n);
-    
-    // For non-child-only searches, also add valid ancestors as additional scopes
-    if (!excludeSelectedLayers) {
-      let a: BaseNode | null = n;
-      while (
-        a && !(
-          a.type === 'PAGE' ||
-          a.type === 'SECTION' ||
-          a.type === 'FRAME' ||
-          a.type === 'INSTANCE' ||
-          a.type === 'COMPONENT' ||
-          a.type === 'COMPONENT_SET'
-        )
-      ) a = a.parent;
-      if (a && a.type !== 'PAGE') scopes.set((a as SceneNode).id, a as SceneNode);
+  const candidates = new Map<string, SceneNode>();
+  for (const scope of scopes) {
+    if (scope.type !== 'PAGE' && outer(scope as SceneNode)) candidates.set(scope.id, scope as SceneNode);
+    if (descendants && 'findAll' in scope) {
+      for (const n of scope.findAll(outer)) candidates.set(n.id, n);
     }
   }
-  
-  // Prune overlapping scopes: keep deepest nodes only (drop any scope that is an ancestor of another)
-  const all = Array.from(scopes.values());
-  const idSet = new Set(all.map(n => n.id));
-  const out = all.filter(n => {
-    let p: BaseNode | null = n.parent;
-    while (p && 'id' in p && (p as any).type !== 'PAGE') {
-      const pid = (p as any).id as string | undefined;
-      if (pid && idSet.has(pid)) return false; // ancestor present → drop this ancestor scope
-      p = (p as any).parent;
+
+  const yieldEvery = getYieldEvery(modifiers);
+  let checked = 0;
+  for (const candidate of candidates.values()) {
+    for (const sub of subqueries) {
+      if (SEARCH_CANCELLED) return;
+      const key = `${sub}::${candidate.id}`;
+      if (hasMatchCache.has(key)) continue;
+      // eslint-disable-next-line no-await-in-loop
+      hasMatchCache.set(key, await subqueryMatches(candidate, sub, modifiers));
     }
-    return true;
-  });
-  
-  // Return all scopes (no artificial limit to ensure all selected layers are searched)
-  return out.length ? out : [figma.currentPage];
+    if (++checked % yieldEvery === 0) {
+      // eslint-disable-next-line no-await-in-loop
+      await yieldControl();
+    }
+  }
 }
 
 /**
- * Tokenizes a name query, respecting quoted segments.
- * Quoted tokens are matched literally and case-sensitively.
- * Unquoted tokens use case-insensitive substring matching.
+ * Builds a query that finds every instance of the selected components, component sets
+ * or instances' main components, e.g. !{key:"abc"}|!{key:"def"}.
+ * @returns The query, or null when nothing suitable is selected
  */
-type NameToken = { value: string; quoted: boolean };
+async function instancesOfSelectionQuery(): Promise<string | null> {
+  const keys = new Set<string>();
+  for (const n of figma.currentPage.selection) {
+    if (n.type === 'COMPONENT' || n.type === 'COMPONENT_SET') {
+      keys.add(n.key);
+    } else if (n.type === 'INSTANCE') {
+      const main = await n.getMainComponentAsync();
+      if (main) keys.add(main.key);
+    }
+  }
+  if (!keys.size) return null;
+  return Array.from(keys).map(k => `!{key:"${k}"}`).join('|');
+}
 
-function tokenizeNameQuery(raw: string): NameToken[] {
-  const tokens: NameToken[] = [];
+/**
+ * Splits a part into its |-separated alternatives, keeping pipes inside quoted
+ * literals, {...} property filters and regex literals intact. Empty alternatives
+ * are dropped.
+ */
+function splitAlternatives(part: string): string[] {
+  const alts: string[] = [];
   let current = '';
   let inQuote = false;
 
-  const pushToken = (quoted: boolean) => {
-    const value = quoted ? current : current.trim();
-    if (value.length) tokens.push({ value, quoted });
-    current = '';
-  };
-
-  for (let i = 0; i < raw.length; i++) {
-    const ch = raw[i];
+  for (let i = 0; i < part.length; i++) {
+    const ch = part[i];
     if (ch === '"') {
-      if (inQuote) {
-        pushToken(true);
-        inQuote = false;
-      } else {
-        if (current.trim().length) pushToken(false);
-        inQuote = true;
+      inQuote = !inQuote;
+      current += ch;
+      continue;
+    }
+    if (!inQuote && ch === '/' && /(^|\s|[-#$@&%=!?])$/.test(current)) {
+      const lit = readRegexLiteral(part, i);
+      if (lit) {
+        current += part.substring(i, lit.end);
+        i = lit.end - 1;
+        continue;
       }
-      continue; // do not include quote characters in the token
     }
-    if (!inQuote && /\s/.test(ch)) {
-      pushToken(false);
+    if (!inQuote && ch === '{') {
+      const end = findBraceGroupEnd(part, i);
+      if (end !== -1) {
+        current += part.substring(i, end + 1);
+        i = end;
+        continue;
+      }
+    }
+    if (!inQuote && ch === ':') {
+      const end = findHasGroupEnd(part, i);
+      if (end !== -1) {
+        current += part.substring(i, end + 1);
+        i = end;
+        continue;
+      }
+    }
+    if (!inQuote && ch === '|') {
+      alts.push(current);
+      current = '';
       continue;
     }
     current += ch;
   }
-
-  if (current.length) pushToken(inQuote);
-  return tokens;
+  alts.push(current);
+  return alts.map(a => a.trim()).filter(a => a.length > 0);
 }
 
-function isFullyQuoted(raw: string): boolean {
-  const trimmed = raw.trim();
-  return trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2;
+type SiblingCombinator = '+' | '~' | '-';
+
+/**
+ * Resolves a sibling combinator for each node: "+" the next sibling, "~" every following
+ * sibling and "-" the previous sibling. Siblings follow the parent's children order, or the
+ * visual order for Auto Layout parents. Hidden siblings are skipped unless --h or --a is set.
+ * @returns The unique matching siblings
+ */
+function findSiblings(
+  nodes: (SceneNode | PageNode | SectionNode)[],
+  combinator: SiblingCombinator,
+  matches: (n: SceneNode) => boolean,
+  compareVisual: (a: SceneNode, b: SceneNode) => number,
+  modifiers?: SearchModifiers,
+  isLastPart: boolean = false
+): SceneNode[] {
+  const includeHidden = !!(modifiers?.hiddenOnly || modifiers?.allLayers);
+  const orderedByParent = new Map<string, SceneNode[]>();
+  const out = new Map<string, SceneNode>();
+
+  for (const n of nodes) {
+    if (SEARCH_CANCELLED) break;
+    const parent = n.parent;
+    if (n.type === 'PAGE' || !parent || !('children' in parent)) continue;
+    let kids = orderedByParent.get(parent.id);
+    if (!kids) {
+      kids = (parent.children as readonly SceneNode[]).slice();
+      const mode = 'layoutMode' in parent && typeof parent.layoutMode === 'string' ? parent.layoutMode : 'NONE';
+      if (mode !== 'NONE') kids.sort(compareVisual);
+      orderedByParent.set(parent.id, kids);
+    }
+    const step = combinator === '-' ? -1 : 1;
+    for (let j = kids.indexOf(n as SceneNode) + step; j >= 0 && j < kids.length; j += step) {
+      const sib = kids[j];
+      if (!includeHidden && !sib.visible) continue;
+      if (matches(sib) && !(modifiers?.hiddenOnly && isLastPart && sib.visible)) out.set(sib.id, sib);
+      if (combinator !== '~') break;
+    }
+  }
+  return Array.from(out.values());
 }
 
+type Alternative = { type: string; name: string };
+
 /**
- * Builds a reusable matcher for a name query. Results are cached per query string.
- * - Quoted tokens: literal, case-sensitive substring.
- * - Unquoted tokens: case-insensitive substring.
- * - A single fully quoted token matches the entire name (exact match).
+ * Resolves a part's alternatives into type/name pairs. An alternative that starts with
+ * a type symbol uses that type; one without a symbol inherits the previous type, so
+ * "=Title|Heading" means text named Title or text named Heading.
  */
-function buildNameMatcher(q: string): (name: string) => boolean {
-  if (nameMatcherCache.has(q)) return nameMatcherCache.get(q)!;
+function resolveAlternatives(type: string, name: string): Alternative[] {
+  const raw = splitAlternatives(name);
+  // A bare symbol before the first pipe ("@|%") is an alternative of its own: any layer of that type
+  if (/^\s*\|/.test(name)) raw.unshift('');
+  if (raw.length <= 1) return [{ type, name }];
+  let current = type;
+  return raw.map(alt => {
+    const own = getSearchType(alt);
+    if (own === 'ANY') return { type: current, name: alt };
+    current = own;
+    return { type: own, name: getSearchName(alt) };
+  });
+}
 
-  const tokens = tokenizeNameQuery(q);
-  const hasTokens = tokens.length > 0;
-  const exact = tokens.length === 1 && tokens[0].quoted && isFullyQuoted(q);
-  const quoted = tokens.filter(t => t.quoted).map(t => t.value);
-  const unquoted = tokens.filter(t => !t.quoted).map(t => t.value.toLowerCase());
+/**
+ * Resolves the type and name a query part is searched with. When alternatives mix
+ * types ("@Card|!Card Tile") the part is searched as ANY and the full part is kept
+ * as the name so each alternative still carries its own symbol.
+ */
+function getPartTypeAndName(part: string): Alternative {
+  const type = getSearchType(part);
+  const name = getSearchName(part);
+  const alts = resolveAlternatives(type, name);
+  const mixed = alts.some(a => a.type !== alts[0].type);
+  return mixed ? { type: 'ANY', name: part.trim() } : { type, name };
+}
 
-  const matcher = (name: string): boolean => {
-    if (!hasTokens) return true;
-    if (exact) return name === quoted[0]; // fully quoted single token → exact, case-sensitive
+/**
+ * Recognizes an upward step: ".." moves to the parent, "<@Card" to the nearest
+ * ancestor matching the part after "<" (a bare "<" is the same as "..").
+ * @returns null for a regular part, otherwise the ancestor part ('' for the parent)
+ */
+function getUpwardStep(part: string): string | null {
+  const p = part.trim();
+  if (p === '..') return '';
+  if (!p.startsWith('<')) return null;
+  return p.substring(1).trim();
+}
 
-    const lower = name.toLowerCase();
-    for (const lit of quoted) {
-      if (!name.includes(lit)) return false;
+/**
+ * Maps each node to its parent, or to its nearest ancestor matching the step's part.
+ * Pages are never returned; nodes without a matching ancestor drop out.
+ * @returns The unique ancestors in scope order
+ */
+async function ascendScopes(
+  nodes: (SceneNode | PageNode | SectionNode)[],
+  step: string,
+  modifiers?: SearchModifiers
+): Promise<SceneNode[]> {
+  let matches: ((n: SceneNode) => boolean) | null = null;
+  if (step) {
+    const { type, name } = getPartTypeAndName(step);
+    matches = buildNodeMatcher(type, name);
+    if (usesMainComponentFilter(name)) {
+      const instances = new Map<string, InstanceNode>();
+      for (const n of nodes) {
+        for (let a: BaseNode | null = n.parent; a && a.type !== 'PAGE'; a = a.parent) {
+          if (a.type === 'INSTANCE') instances.set(a.id, a);
+        }
+      }
+      await primeMainComponents(Array.from(instances.values()), modifiers);
     }
-    for (const part of unquoted) {
-      if (lower.indexOf(part) === -1) return false;
+    if (usesHasFilter(name)) {
+      const ancestors = new Map<string, SceneNode>();
+      for (const n of nodes) {
+        for (let a: BaseNode | null = n.parent; a && a.type !== 'PAGE' && a.type !== 'DOCUMENT'; a = a.parent) ancestors.set(a.id, a as SceneNode);
+      }
+      await primeHasFilters(Array.from(ancestors.values()), type, name, modifiers, false);
     }
-    return true;
-  };
+    if (usesStyleFilter(name)) {
+      const ancestors = new Map<string, SceneNode>();
+      for (const n of nodes) {
+        for (let a: BaseNode | null = n.parent; a && a.type !== 'PAGE' && a.type !== 'DOCUMENT'; a = a.parent) ancestors.set(a.id, a as SceneNode);
+      }
+      await primeStyleNames(Array.from(ancestors.values()), modifiers, false);
+    }
+  }
 
-  nameMatcherCache.set(q, matcher);
-  return matcher;
+  const out = new Map<string, SceneNode>();
+  for (const n of nodes) {
+    if (SEARCH_CANCELLED) break;
+    for (let a: BaseNode | null = n.parent; a && a.type !== 'PAGE' && a.type !== 'DOCUMENT'; a = a.parent) {
+      if (!matches || matches(a as SceneNode)) {
+        out.set(a.id, a as SceneNode);
+        break;
+      }
+    }
+  }
+  return Array.from(out.values());
 }
 
 /**
- * Checks if a node's name matches the search query using the cached matcher.
- * @param n - The node to check
- * @param q - The search query
- * @returns true if the node name matches the query (or if query is empty)
+ * Builds a reusable node matcher for a part's type and name query: the type gate
+ * (with {...} property filters), the image/shape split, bracketed attribute filters,
+ * the name matcher and :has(...) results primed by primeHasFilters, ORed across
+ * |-alternatives. A text query starting with "~" (=~"Sign in") is matched against the
+ * layer's characters instead of its name. Results are cached per type and query string.
  */
-function matchesName(n: SceneNode, q: string): boolean {
-  const matcher = buildNameMatcher(q);
-  return matcher(n.name || '');
+function buildNodeScorer(type: string, q: string): (n: SceneNode) => number {
+  const key = `${type}::${q}${nameRulesKey()}`;
+  if (nodeScorerCache.has(key)) return nodeScorerCache.get(key)!;
+
+  const checks = resolveAlternatives(type, q).map(alt => {
+    const { name, predicates, properties, has } = extractFilters(alt.name);
+    const gate = properties.length ? gateWithProperties(alt.type, properties) : gateFor(alt.type);
+    const filters = predicates.map(body => (isStyleFilter(body) ? compileStyleFilter(body) : compilePredicate(body)));
+    const matchContent = alt.type === 'TEXT' && name.startsWith('~');
+    const nameScore = buildNameScorer(matchContent ? name.substring(1) : name);
+    return (n: SceneNode): number => {
+      if (alt.type === 'SHAPE' && gateImage(n)) return 0;
+      if (alt.type === 'IMAGE' && !gateImage(n)) return 0;
+      if (!gate(n)) return 0;
+      for (const filter of filters) {
+        if (!filter(n)) return 0;
+      }
+      const score = matchContent ? nameScore((n as TextNode).characters || '') : nameScore(n.name || '');
+      return score > 0 && has.every(sub => hasMatchCache.get(`${sub}::${n.id}`) === true) ? score : 0;
+    };
+  });
+  const scorer = checks.length === 1
+    ? checks[0]
+    : (n: SceneNode) => checks.reduce((best, check) => Math.max(best, check(n)), 0);
+
+  nodeScorerCache.set(key, scorer);
+  return scorer;
 }
 
-// Type filtering functions - determine if a node matches a specific search type
-const gateSection = (n: SceneNode) => n.type === 'SECTION';
-const gateFrame   = (n: SceneNode) => n.type === 'FRAME' || n.type === 'GROUP';
-const gateInst    = (n: SceneNode) => n.type === 'INSTANCE';
-const gateComp    = (n: SceneNode) => n.type === 'COMPONENT' || n.type === 'COMPONENT_SET';
-const gateShape   = (n: SceneNode) => (
-  n.type === 'RECTANGLE' || n.type === 'ELLIPSE' || n.type === 'POLYGON' ||
-  n.type === 'STAR' || n.type === 'LINE' || n.type === 'VECTOR'
-);
-const gateImage   = (n: SceneNode) => {
-  const anyFill = (x:any)=> Array.isArray(x) && x.some((f:any)=>f?.type === 'IMAGE');
-  return ('fills' in n && anyFill((n as any).fills));
-};
-const gateText    = (n: SceneNode) => n.type === 'TEXT';
+/**
+ * Builds the node matcher for a part's type and name: a node matches when
+ * buildNodeScorer gives it a score above 0.
+ */
+function buildNodeMatcher(type: string, q: string): (n: SceneNode) => boolean {
+  const key = `${type}::${q}${nameRulesKey()}`;
+  if (nodeMatcherCache.has(key)) return nodeMatcherCache.get(key)!;
+  const score = buildNodeScorer(type, q);
+  const matcher = (n: SceneNode) => score(n) > 0;
+  nodeMatcherCache.set(key, matcher);
+  return matcher;
+}
 
 /**
- * Returns the appropriate type filter function based on search type
- * @param type - The search type (SECTION, FRAME, INSTANCE, etc.)
- * @returns A function that filters nodes by the specified type
+ * Builds a page matcher for a "#" part; pages only match by name, ORed across
+ * |-alternatives (e.g. "#Design|Archive").
  */
-function gateFor(type: string): (n: SceneNode)=>boolean {
-  if (type === 'SECTION')   return gateSection;
-  if (type === 'FRAME')     return gateFrame;
-  if (type === 'INSTANCE')  return gateInst;
-  if (type === 'COMPONENT') return gateComp;
-  if (type === 'SHAPE')     return gateShape;
-  if (type === 'IMAGE')     return gateImage;
-  if (type === 'TEXT')      return gateText;
-  return () => true; // ANY - matches all node types
+function buildPageMatcher(q: string): (page: PageNode) => boolean {
+  const matchers = resolveAlternatives('PAGE', q).map(alt => buildNameMatcher(extractFilters(alt.name).name));
+  return (page: PageNode) => matchers.some(m => m(page.name));
 }
 
 /**
@@ -528,6 +2850,9 @@ function gateFor(type: string): (n: SceneNode)=>boolean {
  */
 async function walk(root: ChildrenMixin, step:(n:SceneNode)=>boolean, modifiers?: SearchModifiers, isFinalPart: boolean = false) {
   const stack: SceneNode[] = 'children' in root ? Array.from(root.children as readonly SceneNode[]) : [];
+  // Levels below root, kept in step with the stack; only tracked when a depth bound applies
+  const bound = DEPTH_BOUND;
+  const depths: number[] = bound ? stack.map(() => 1) : [];
   const batchSize = (modifiers?.hiddenOnly || modifiers?.allLayers) ? 400 : 2000; // smaller batches in heavy mode
   
   while (stack.length) {
@@ -536,6 +2861,7 @@ async function walk(root: ChildrenMixin, step:(n:SceneNode)=>boolean, modifiers?
     
     // Process in batches for heavy files
     const batch = stack.splice(0, Math.min(batchSize, stack.length));
+    const batchDepths = bound ? depths.splice(0, batch.length) : [];
     
     for (let i = 0; i < batch.length; i++) {
       const n = batch[i];
@@ -551,9 +2877,12 @@ async function walk(root: ChildrenMixin, step:(n:SceneNode)=>boolean, modifiers?
       }
       // Note: --h constraint is applied later when checking if a node matches
       
-      const descend = step(n);
-      if (descend && 'children' in n) {
-        stack.push(...Array.from(n.children as readonly SceneNode[]));
+      const depth = bound ? batchDepths[i] : 0;
+      const descend = bound && depth < bound.min ? true : step(n);
+      if (descend && 'children' in n && (!bound || depth < bound.max)) {
+        const kids = Array.from(n.children as readonly SceneNode[]);
+        stack.push(...kids);
+        if (bound) depths.push(...kids.map(() => depth + 1));
       }
 
       // Periodically yield to allow UI events (cancel button) to process
@@ -579,9 +2908,10 @@ async function walk(root: ChildrenMixin, step:(n:SceneNode)=>boolean, modifiers?
  * @param query - The search query (may contain modifiers like --f, --h, etc.)
  * @param movedToPage - Whether we've already switched to a target page
  * @param modifiers - Parsed search modifiers
+ * @param page - Search this whole page instead of the current page or selection (multi-page search)
  * @returns Array of search results with node and path information
  */
-async function performSearch(query: string, movedToPage: boolean = false, modifiers?: SearchModifiers): Promise<SearchResult[]> {
+async function performSearch(query: string, movedToPage: boolean = false, modifiers?: SearchModifiers, page?: PageNode): Promise<SearchResult[]> {
   // Visual order comparator used by --fe/--#e and by global --#.
   // It prioritizes visible positioning over paint/z-order:
   //  - If both nodes share an Auto Layout ancestor, use that ancestor's axis
@@ -597,7 +2927,8 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
     const h = ("height" in (n as any)) ? (n as any).height as number : 0;
     return { w: (isFinite(w) ? w : 0), h: (isFinite(h) ? h : 0) };
   };
-  const buildRowComparator = (nodes: SceneNode[]): ((a: SceneNode, b: SceneNode) => number) => {
+  // With rtl, rows still go top to bottom but each row is read from its right edge
+  const buildRowComparator = (nodes: SceneNode[], rtl: boolean = false): ((a: SceneNode, b: SceneNode) => number) => {
     const heights: number[] = nodes.map(n => getSize(n).h || 0);
     const avgH = heights.length ? (heights.reduce((s, v) => s + v, 0) / heights.length) : 0;
     const rowEps = Math.max(8, Math.round(0.35 * (avgH || 24)));
@@ -615,7 +2946,10 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
       const { ax: xA, ay: yA } = getAbsXY(a);
       const { ax: xB, ay: yB } = getAbsXY(b);
       if (sameRow(a, b)) {
-        if (Math.abs(xA - xB) > 0.5) return xA - xB; // left-to-right within row
+        if (rtl) {
+          const dr = (xB + getSize(b).w) - (xA + getSize(a).w);
+          if (Math.abs(dr) > 0.5) return dr; // right-to-left within row
+        } else if (Math.abs(xA - xB) > 0.5) return xA - xB; // left-to-right within row
         // tie-breaker: z-order via nearest common ancestor
         const lca = nearestCommonAncestor(a, b);
         if (lca && 'children' in lca) {
@@ -627,7 +2961,35 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
       // Different rows: top rows first by minY
       if (Math.abs(yA - yB) > 0.5) return yA - yB;
       // If extremely close, fall back to x
+      if (Math.abs(xA - xB) > 0.5) return rtl ? xB - xA : xA - xB;
+      return 0;
+    };
+  };
+  // --order=column: the row comparator turned sideways (columns left to right, top to bottom within each)
+  const buildColumnComparator = (nodes: SceneNode[]): ((a: SceneNode, b: SceneNode) => number) => {
+    const widths: number[] = nodes.map(n => getSize(n).w || 0);
+    const avgW = widths.length ? (widths.reduce((s, v) => s + v, 0) / widths.length) : 0;
+    const colEps = Math.max(8, Math.round(0.35 * (avgW || 24)));
+    const sameColumn = (a: SceneNode, b: SceneNode): boolean => {
+      const cA = getAbsXY(a).ax + (getSize(a).w || avgW || 24) / 2;
+      const cB = getAbsXY(b).ax + (getSize(b).w || avgW || 24) / 2;
+      return Math.abs(cA - cB) <= colEps;
+    };
+    return (a: SceneNode, b: SceneNode): number => {
+      if (a === b) return 0;
+      const { ax: xA, ay: yA } = getAbsXY(a);
+      const { ax: xB, ay: yB } = getAbsXY(b);
+      if (sameColumn(a, b)) {
+        if (Math.abs(yA - yB) > 0.5) return yA - yB; // top-to-bottom within column
+        const lca = nearestCommonAncestor(a, b);
+        if (lca && 'children' in lca) {
+          const kids = (lca.children as readonly BaseNode[]);
+          return kids.indexOf(b) - kids.indexOf(a);
+        }
+        return 0;
+      }
       if (Math.abs(xA - xB) > 0.5) return xA - xB;
+      if (Math.abs(yA - yB) > 0.5) return yA - yB;
       return 0;
     };
   };
@@ -839,94 +3201,92 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
     const dx = axA - axB; if (Math.abs(dx) > 0.5) return dx;
     return 0;
   };
-  // Parse query parts, handling // as a special separator for direct children and
-  // keeping slashes inside quoted literals intact.
-  const splitQueryRespectingQuotes = (q: string): string[] => {
-    const segments: string[] = [];
-    let current = '';
-    let inQuote = false;
-
-    for (let i = 0; i < q.length; i++) {
-      const ch = q[i];
-      if (ch === '"') {
-        inQuote = !inQuote;
-        current += ch;
-        continue;
-      }
-      if (!inQuote && ch === '/') {
-        segments.push(current);
-        current = '';
-        if (i + 1 < q.length && q[i + 1] === '/') {
-          segments.push('');
-          i++;
-        }
-        continue;
-      }
-      current += ch;
-    }
-    segments.push(current);
-    return segments;
+  // The order index picks, --f, --fe and the results follow: reading order unless --order says otherwise.
+  // Ties fall back to reading order.
+  const buildOrderComparator = (nodes: SceneNode[]): ((a: SceneNode, b: SceneNode) => number) => {
+    const order = modifiers?.order;
+    if (order === 'rtl') return buildRowComparator(nodes, true);
+    if (order === 'column') return buildColumnComparator(nodes);
+    if (order === 'layers') return (a, b) => compareZFirstWithinScope(null, a, b); // top of the layers panel first
+    const reading = buildRowComparator(nodes);
+    const area = (n: SceneNode) => { const { w, h } = getSize(n); return w * h; };
+    if (order === 'name') return (a, b) => compareNames(a.name, b.name) || reading(a, b);
+    if (order === 'area') return (a, b) => (area(b) - area(a)) || reading(a, b); // largest first
+    return reading;
+  };
+  const sortResults = (list: SearchResult[]): SearchResult[] => {
+    const cmp = buildOrderComparator(list.map(r => r.node as SceneNode));
+    return list.slice().sort((a, b) => cmp(a.node as SceneNode, b.node as SceneNode));
   };
 
-  const parts: { part: string; isDirectChild: boolean }[] = [];
-  const segments = splitQueryRespectingQuotes(query);
-  
-  for (let i = 0; i < segments.length; i++) {
-    let segment = segments[i].trim();
-    if (segment.length === 0) continue;
-    
-    // Check if this segment is followed by an empty segment (indicating //)
-    const isDirectChild = i < segments.length - 1 && segments[i + 1].trim().length === 0;
-    
-    parts.push({ part: segment, isDirectChild });
-    
-    // Skip the next empty segment if this is a direct child search
-    if (isDirectChild) {
-      i++;
-    }
-  }
-
-  // If the query ends with // or /, add an implicit ANY part to search children with or without direct restriction
-  const trimmedQuery = query.trim();
-  const endsWithDirect = /\/\/\s*$/.test(trimmedQuery);
-  const endsWithNested = !endsWithDirect && /\/\s*$/.test(trimmedQuery);
-  if (endsWithDirect || endsWithNested) {
-    parts.push({ part: '', isDirectChild: endsWithDirect });
-  }
-
-  // If the query starts with //, mark the first real part as direct-child
-  const startsWithDirect = /^\s*\/{2}/.test(trimmedQuery);
-  if (startsWithDirect && parts.length > 0) {
-    parts[0].isDirectChild = true;
-  }
+  // Steps in order: separators, depth bounds, sibling combinators and inline indexes are resolved by the parser
+  const parsed = parseQuery(query);
+  const { parts } = parsed;
 
-  // Propagate the direct-child indicator to the following part (so it applies to the child search term)
-  for (let i = parts.length - 2; i >= 0; i--) {
-    if (parts[i].isDirectChild) {
-      // Do not propagate the leading // from the very start of the query;
-      // it should only apply to the first part relative to the current selection.
-      if (!(startsWithDirect && i === 0)) {
-        parts[i + 1].isDirectChild = true;
-        parts[i].isDirectChild = false;
+  // Set expressions search each path on its own and combine the results by node id.
+  // "," binds loosest: "A , B && C \\ D" is A plus (B within C, minus D).
+  // A single path with --f and --order goes through here too, since the first match in
+  // that order is only known once every match is found.
+  if (parsed.operands.length > 1 || (modifiers?.order && modifiers.firstMatch)) {
+    // --f and a trailing index pick from the combined results, so each path collects every match
+    const pathModifiers = modifiers && { ...modifiers, firstMatch: false };
+    const stopOnFirst = STOP_ON_FIRST;
+    STOP_ON_FIRST = false;
+    const combined = new Map<string, SearchResult>();
+    let branch: Map<string, SearchResult> | null = null;
+    const addBranch = () => { if (branch) branch.forEach((r, id) => combined.set(id, r)); };
+    try {
+      for (const operand of parsed.operands) {
+        if (SEARCH_CANCELLED) break;
+        if (operand.operator === ',') {
+          addBranch();
+          branch = null;
+        } else if (branch && !branch.size) {
+          continue; // nothing left to intersect or subtract from
+        }
+        const found = new Map<string, SearchResult>();
+        for (const r of await performSearch(operand.query, movedToPage, pathModifiers, page)) found.set(r.node.id, r);
+        if (!branch) {
+          branch = found;
+        } else {
+          const keep = operand.operator === '&&';
+          const next = new Map<string, SearchResult>();
+          branch.forEach((r, id) => { if (found.has(id) === keep) next.set(id, r); });
+          branch = next;
+        }
       }
+      addBranch();
+    } finally {
+      STOP_ON_FIRST = stopOnFirst;
     }
+    let combinedResults = Array.from(combined.values());
+    if ((parsed.index || modifiers?.firstMatch) && combinedResults.length) {
+      const nodes = combinedResults.map(r => r.node as SceneNode);
+      let picks = nodes.slice().sort(buildOrderComparator(nodes));
+      if (parsed.index) picks = pickIndexed(picks, parsed.index.selector);
+      if (modifiers?.firstMatch) picks = picks.slice(0, 1);
+      combinedResults = picks.map(n => ({ node: n, path: getNodePath(n) }));
+    } else if (modifiers?.order) {
+      combinedResults = sortResults(combinedResults);
+    }
+    return combinedResults;
   }
-  
+
   if (!parts.length) return [];
 
   // Check cache first for performance on heavy files
   const isFastMode = !(modifiers?.hiddenOnly || modifiers?.allLayers);
-  const cacheKey = isFastMode ? `${figma.currentPage.id}:${query}` : `FLAGS-NO-CACHE`;
+  const cacheKey = isFastMode ? `${(page || figma.currentPage).id}:${query}${modifiers?.maxDepth ? ` --d${modifiers.maxDepth}` : ''}${modifiers?.order ? ` --order=${modifiers.order}` : ''}${nameRulesKey()}` : `FLAGS-NO-CACHE`;
   if (isFastMode && searchCache.has(cacheKey)) {
     return searchCache.get(cacheKey)!;
   }
 
   // Fast path for simple page searches (e.g., "#PageName")
-  if (query.trim().startsWith('#') && !query.includes('/')) {
+  if (!page && query.trim().startsWith('#') && !query.includes('/')) {
     const pageNameRaw = query.trim().substring(1);
-    const pageNameMatches = buildNameMatcher(pageNameRaw);
+    const pageNameMatches = buildPageMatcher(pageNameRaw);
     const target = figma.root.children.find(p => 
-      p.type === 'PAGE' && pageNameMatches(p.name)
+      p.type === 'PAGE' && pageNameMatches(p)
     );
     if (target) {
       const result = [{ node: target, path: `#${target.name}` }];
@@ -945,41 +3305,88 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
     if (SEARCH_CANCELLED) break;
     
     const partInfo = parts[i];
-    const part = partInfo.part;
     const isDirectChild = partInfo.isDirectChild;
     const isLastPart = i === parts.length - 1;
     const stopThisPart = modifiers?.firstMatch || false; // --f: stop at first match overall
     const stopThisPartEach = modifiers?.firstMatchEach && !modifiers?.firstMatch && isLastPart || false; // --fe: only apply to last part
-    const rawPart = part;
     const isRoot = i === 0;
+    DEPTH_BOUND = isDirectChild ? null
+      : (partInfo.depth ?? (modifiers?.maxDepth ? { min: 1, max: modifiers.maxDepth } : null));
 
-    // Extract inline index modifiers for this part
-    const inlineIdxEachMatch = rawPart.match(/--(\d+)e\b/);
-    const inlineIdxGlobalMatch = rawPart.match(/--(\d+)\b(?!e)/);
-    const inlineIdxEach = inlineIdxEachMatch ? parseInt(inlineIdxEachMatch[1], 10) : null;
-    const inlineIdxGlobal = inlineIdxGlobalMatch ? parseInt(inlineIdxGlobalMatch[1], 10) : null;
+    // Inline index modifiers for this part
+    const inlineIdx = partInfo.index;
+    const inlineIdxEach = inlineIdx && inlineIdx.each ? inlineIdx.selector : null;
+    const inlineIdxGlobal = inlineIdx && !inlineIdx.each ? inlineIdx.selector : null;
 
-    // Clean part from inline index modifiers for type/name parsing
-    const cleanedPart = rawPart.replace(/\s*--\d+e\b/g, '').replace(/\s*--\d+\b/g, '').trim();
+    // Upward steps (".." or "<part") replace each current match with its parent or matching ancestor.
+    // At the root they start from the selected layers.
+    const upwardStep = partInfo.upward;
+    if (upwardStep !== null) {
+      const base = isRoot ? (page ? [] : figma.currentPage.selection as SceneNode[]) : currentScope;
+      let ancestors = await ascendScopes(base, upwardStep, modifiers);
+      if (inlineIdxGlobal !== null && ancestors.length) {
+        ancestors = pickIndexed(ancestors.slice().sort(buildOrderComparator(ancestors)), inlineIdxGlobal);
+      }
+      if (stopThisPart && ancestors.length) ancestors = [ancestors[0]];
+      results = ancestors.map(a => ({ node: a, path: getNodePath(a) }));
+      currentScope = ancestors;
+      if (currentScope.length === 0) break;
+      continue;
+    }
 
-    const searchType = getSearchType(cleanedPart);
-    const searchName = getSearchName(cleanedPart);
-    const nameMatches = buildNameMatcher(searchName);
+    const { type: searchType, name: searchName } = partInfo;
+    const nodeMatches = buildNodeMatcher(searchType, searchName);
 
     FOUND_ONE = false;
 
+    // Sibling steps replace each current match with its matching next, following or previous siblings.
+    // At the root they start from the selected layers.
+    if (partInfo.sibling) {
+      const base = isRoot ? (page ? [] : figma.currentPage.selection as SceneNode[]) : currentScope;
+      if (usesMainComponentFilter(searchName)) {
+        const parents = new Map<string, SceneNode | PageNode>();
+        for (const n of base) if (n.parent && n.parent.type !== 'DOCUMENT') parents.set(n.parent.id, n.parent as SceneNode | PageNode);
+        await primeMainComponents(Array.from(parents.values()), modifiers);
+      }
+      if (usesHasFilter(searchName)) {
+        const siblingPool = new Map<string, SceneNode>();
+        for (const n of base) {
+          const parent = n.parent;
+          if (parent && 'children' in parent) for (const ch of parent.children as readonly SceneNode[]) siblingPool.set(ch.id, ch);
+        }
+        await primeHasFilters(Array.from(siblingPool.values()), searchType, searchName, modifiers, false);
+      }
+      if (usesStyleFilter(searchName)) {
+        const parents = new Map<string, SceneNode | PageNode>();
+        for (const n of base) if (n.parent && n.parent.type !== 'DOCUMENT') parents.set(n.parent.id, n.parent as SceneNode | PageNode);
+        await primeStyleNames(Array.from(parents.values()), modifiers);
+      }
+      let siblings = findSiblings(base, partInfo.sibling, nodeMatches, compareVisual, modifiers, isLastPart);
+      if (inlineIdxGlobal !== null && siblings.length) {
+        siblings = pickIndexed(siblings.slice().sort(buildOrderComparator(siblings)), inlineIdxGlobal);
+      }
+      if (stopThisPart && siblings.length) siblings = [siblings[0]];
+      results = siblings.map(sib => ({ node: sib, path: getNodePath(sib) }));
+      currentScope = siblings;
+      if (currentScope.length === 0) break;
+      continue;
+    }
+
     if (isRoot) {
       if (searchType === 'PAGE') {
         // Page search should have been handled by the fast path above
         // This is just a fallback for complex queries
-        const target = figma.root.children.find(p => nameMatches(p.name));
+        const target = page || figma.root.children.find(buildPageMatcher(searchName));
         if (!target) { results = []; currentScope = []; break; }
         results = [{ node: target, path: `#${target.name}` }];
         currentScope = [target];
       } else {
         // Determine if this is a child-only search (starts with /)
         const isChildSearch = query.trim().startsWith('/');
-        const scopes = getInitialScopes(isChildSearch);
+        const scopes = page ? [page] : getInitialScopes(isChildSearch);
+        if (usesMainComponentFilter(searchName)) await primeMainComponents(scopes, modifiers);
+        if (usesStyleFilter(searchName)) await primeStyleNames(scopes, modifiers);
+        if (usesHasFilter(searchName)) await primeHasFilters(scopes, searchType, searchName, modifiers);
         const rootResults: SearchResult[] = [];
         const pickedIdsRoot = new Set<string>();
 
@@ -987,12 +3394,11 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
 
         // Inline global index on this part: pick Nth overall and use it as the sole scope for next parts
         if (inlineIdxGlobal !== null) {
-          const gate = gateFor(searchType);
           const all: SceneNode[] = [];
           for (const s of scopes) {
             if (SEARCH_CANCELLED) break;
             if (!isChildSearch) {
-              const scopeMatches = s.type !== 'PAGE' && gate(s as SceneNode) && nameMatches(s.name || '');
+              const scopeMatches = s.type !== 'PAGE' && nodeMatches(s as SceneNode);
               if (scopeMatches) all.push(s as SceneNode);
             }
             if ('children' in s && s.children && s.children.length > 0) {
@@ -1001,41 +3407,29 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                 for (const ch of children) {
                   if (SEARCH_CANCELLED) break;
                   if (fastMode && !ch.visible) continue;
-                  if (searchType === 'SHAPE' && gateImage(ch)) continue;
-                  if (searchType === 'IMAGE' && !gateImage(ch)) continue;
-                  if (!gate(ch)) continue;
-                  if (!nameMatches(ch.name || '')) continue;
+                  if (!nodeMatches(ch)) continue;
                   all.push(ch);
                 }
               } else {
                 const fast = !(modifiers?.hiddenOnly || modifiers?.allLayers);
-                const pool = (s as any).findAll((n: SceneNode) => {
+                const pool = findAllWithinDepth(s, (n: SceneNode) => {
                   if (fast && !n.visible) return false;
-                  if (searchType === 'SHAPE' && gateImage(n)) return false;
-                  if (searchType === 'IMAGE' && !gateImage(n)) return false;
-                  if (!gate(n)) return false;
-                  if (!nameMatches(n.name || '')) return false;
+                  if (!nodeMatches(n)) return false;
                   return true;
                 }) as SceneNode[];
                 all.push(...pool);
               }
             }
           }
-          if (all.length) {
-            const sorted = all.slice().sort(buildRowComparator(all));
-            const idxG = (inlineIdxGlobal === 0 ? sorted.length : inlineIdxGlobal);
-            const pick = sorted[Math.max(0, idxG - 1)] || null;
-            if (pick) {
-              results = [{ node: pick, path: getNodePath(pick) }];
-              currentScope = [pick];
-              continue;
-            }
-          }
+          // An index that picks nothing leaves nothing, rather than falling back to every match
+          const picks = pickIndexed(all.slice().sort(buildOrderComparator(all)), inlineIdxGlobal);
+          results = picks.map(pick => ({ node: pick, path: getNodePath(pick) }));
+          currentScope = picks;
+          continue;
         }
 
         // Minimal, safe global-rank handling for per-scope index on the final part at root
         if (isLastPart && !modifiers?.firstMatch && (modifiers?.firstMatchEach || (modifiers?.indexPickEach ?? null))) {
-          const gate = gateFor(searchType);
           type Scoped = { scope: SceneNode | PageNode | SectionNode; matches: SceneNode[] };
           const scoped: Scoped[] = [];
 
@@ -1044,7 +3438,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
             if (SEARCH_CANCELLED) break;
             const matches: SceneNode[] = [];
             if (!isChildSearch) {
-              const scopeMatches = s.type !== 'PAGE' && gate(s as SceneNode) && nameMatches(s.name || '');
+              const scopeMatches = s.type !== 'PAGE' && nodeMatches(s as SceneNode);
               if (scopeMatches) {
                 const isVisible = (s as SceneNode).visible;
                 let includeScope = true;
@@ -1059,20 +3453,13 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                 for (const ch of children) {
                   if (SEARCH_CANCELLED) break;
                   if (!modifiers?.allLayers && !modifiers?.hiddenOnly && !ch.visible) continue;
-                  if (searchType === 'SHAPE' && gateImage(ch)) continue;
-                  if (searchType === 'IMAGE' && !gateImage(ch)) continue;
-                  if (!gate(ch)) continue;
-                  if (!nameMatches(ch.name || '')) continue;
+                  if (!nodeMatches(ch)) continue;
                   if (modifiers?.hiddenOnly && ch.visible) continue;
                   matches.push(ch);
                 }
               } else {
-                if (searchType === 'SECTION' || searchType === 'FRAME' || searchType === 'INSTANCE' || searchType === 'COMPONENT') {
-                  const types =
-                    searchType === 'SECTION'   ? ['SECTION'] :
-                    searchType === 'FRAME'     ? ['FRAME','GROUP'] :
-                    searchType === 'INSTANCE'  ? ['INSTANCE'] :
-                                                 ['COMPONENT','COMPONENT_SET'];
+                if (POOL_TYPES[searchType]) {
+                  const types = POOL_TYPES[searchType];
                   // When a quoted literal is present, prefer name-aware traversal to avoid stale cached pools
                   const hasQuoted = searchName.indexOf('"') !== -1;
                   const pool = hasQuoted
@@ -1081,7 +3468,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                   for (const n of pool as any) {
                     if (SEARCH_CANCELLED) break;
                     if (fastMode && !n.visible) continue;
-                    if (!nameMatches(n.name || '')) continue;
+                    if (!nodeMatches(n)) continue;
                     let include = true;
                     if (!fastMode) {
                       const isVisible = n.visible;
@@ -1093,12 +3480,9 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                   }
                 } else {
                   const fast = !(modifiers?.hiddenOnly || modifiers?.allLayers);
-                  const pool = (s as any).findAll((n: SceneNode) => {
+                  const pool = findAllWithinDepth(s, (n: SceneNode) => {
                     if (fast && !n.visible) return false;
-                    if (searchType === 'SHAPE' && gateImage(n)) return false;
-                    if (searchType === 'IMAGE' && !gateImage(n)) return false;
-                    if (!gate(n)) return false;
-                    if (!nameMatches(n.name || '')) return false;
+                    if (!nodeMatches(n)) return false;
                     if (modifiers?.hiddenOnly && n.visible) return false;
                     return true;
                   }) as SceneNode[];
@@ -1114,7 +3498,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
           for (const sc of scoped) for (const m of sc.matches) idToNode.set(m.id, m);
           const flat = Array.from(idToNode.values());
           if (flat.length) {
-            const cmp = buildRowComparator(flat);
+            const cmp = buildOrderComparator(flat);
             flat.sort(cmp);
             const rank = new Map<string, number>();
             for (let ri = 0; ri < flat.length; ri++) rank.set(flat[ri].id, ri);
@@ -1144,20 +3528,18 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
         }
         // Special global-selection indexed pick: when selection contains leaf nodes that match the query,
         // pick Nth across the selection regardless of parent scopes.
-        const selected = (figma.currentPage.selection as SceneNode[]) || [];
+        const selected = page ? [] : (figma.currentPage.selection as SceneNode[]) || [];
         const indexToPickGlobal = (modifiers?.indexPick ?? null);
         if (isLastPart && !modifiers?.firstMatch && !isChildSearch && indexToPickGlobal) {
-          const gate = gateFor(searchType);
           const selMatches = selected.filter(ch => {
             // consider only leaf-like or directly matched nodes; visibility flags apply
-            if (!gate(ch)) return false;
-            if (!nameMatches(ch.name || '')) return false;
+            if (!nodeMatches(ch)) return false;
             if (modifiers?.hiddenOnly && ch.visible) return false;
             if (!modifiers?.allLayers && !modifiers?.hiddenOnly && !ch.visible) return false;
             return true;
           });
           if (selMatches.length > 0) {
-            const sortedSel = selMatches.slice().sort(buildRowComparator(selMatches));
+            const sortedSel = selMatches.slice().sort(buildOrderComparator(selMatches));
             const pick = sortedSel[Math.max(0, indexToPickGlobal - 1)] || null;
             if (pick) {
               const sym = pick.type === 'SECTION' ? '$'
@@ -1181,13 +3563,10 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
           
           // Per-scope pick for --fe (first in each scope) or inline --#e on this part
           if (!modifiers?.firstMatch && ((modifiers?.firstMatchEach && isLastPart) || (inlineIdxEach !== null))) {
-            const gate = gateFor(searchType);
-            const indexToPick = (inlineIdxEach ?? 1);
-
             const matches: SceneNode[] = [];
             // Consider the scope node itself if it matches and allowed by flags
             if (!isChildSearch) {
-              const scopeMatches = s.type !== 'PAGE' && gate(s as SceneNode) && nameMatches(s.name || '');
+              const scopeMatches = s.type !== 'PAGE' && nodeMatches(s as SceneNode);
               if (scopeMatches) {
                 const isVisible = (s as SceneNode).visible;
                 let includeScope = true;
@@ -1203,20 +3582,13 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                 for (const ch of children) {
                   if (SEARCH_CANCELLED) break;
                   if (!modifiers?.allLayers && !modifiers?.hiddenOnly && !ch.visible) continue;
-                  if (searchType === 'SHAPE' && gateImage(ch)) continue;
-                  if (searchType === 'IMAGE' && !gateImage(ch)) continue;
-                  if (!gate(ch)) continue;
-                    if (!nameMatches(ch.name || '')) continue;
+                  if (!nodeMatches(ch)) continue;
                   if (modifiers?.hiddenOnly && ch.visible) continue;
                   matches.push(ch);
                 }
               } else {
-                if (searchType === 'SECTION' || searchType === 'FRAME' || searchType === 'INSTANCE' || searchType === 'COMPONENT') {
-                  const types =
-                    searchType === 'SECTION'   ? ['SECTION'] :
-                    searchType === 'FRAME'     ? ['FRAME','GROUP'] :
-                    searchType === 'INSTANCE'  ? ['INSTANCE'] :
-                                                 ['COMPONENT','COMPONENT_SET'];
+                if (POOL_TYPES[searchType]) {
+                  const types = POOL_TYPES[searchType];
                   const hasQuoted = searchName.indexOf('"') !== -1;
                   const pool = hasQuoted
                     ? findMatchingDeep(s as any, searchType, searchName, !!(modifiers?.hiddenOnly || modifiers?.allLayers))
@@ -1224,7 +3596,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                   for (const n of pool as any) {
                     if (SEARCH_CANCELLED) break;
                     if (fastMode && !n.visible) continue;
-                    if (!nameMatches(n.name || '')) continue;
+                    if (!nodeMatches(n)) continue;
                     let include = true;
                     if (!fastMode) {
                       const isVisible = n.visible;
@@ -1236,12 +3608,9 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                   }
                 } else {
                   const fast = !(modifiers?.hiddenOnly || modifiers?.allLayers);
-                  const pool = (s as any).findAll((n: SceneNode) => {
+                  const pool = findAllWithinDepth(s, (n: SceneNode) => {
                     if (fast && !n.visible) return false;
-                    if (searchType === 'SHAPE' && gateImage(n)) return false;
-                    if (searchType === 'IMAGE' && !gateImage(n)) return false;
-                    if (!gate(n)) return false;
-                    if (!nameMatches(n.name || '')) return false;
+                    if (!nodeMatches(n)) return false;
                     if (modifiers?.hiddenOnly && n.visible) return false;
                     return true;
                   }) as SceneNode[];
@@ -1264,7 +3633,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                 }
                 return null;
               };
-              const cmp = buildRowComparator(matches);
+              const cmp = buildOrderComparator(matches);
               const sorted = matches.slice().sort(cmp);
               const ranked = new Map<string, number>();
               for (let ri = 0; ri < sorted.length; ri++) ranked.set(sorted[ri].id, ri);
@@ -1279,9 +3648,8 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                 return own === sid;
               });
               const mineSorted = mine.slice().sort((a,b)=> (ranked.get(a.id)! - ranked.get(b.id)!));
-              const idxE = (inlineIdxEach === 0 ? mineSorted.length : (inlineIdxEach ?? 1));
-              const pick = mineSorted[Math.max(0, idxE - 1)] || null;
-              if (pick && !pickedIdsRoot.has(pick.id)) {
+              for (const pick of pickIndexed(mineSorted, inlineIdxEach ?? FIRST_INDEX)) {
+                if (pickedIdsRoot.has(pick.id)) continue;
                 const sym = pick.type === 'SECTION' ? '$'
                   : (pick.type === 'FRAME' || pick.type === 'GROUP') ? '@'
                   : pick.type === 'INSTANCE' ? '!'
@@ -1299,7 +3667,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
 
           // Check if scope node itself matches (only for non-child searches)
           if (!isChildSearch) {
-            const scopeMatches = s.type !== 'PAGE' && matchesName(s as SceneNode, searchName) && gateFor(searchType)(s as SceneNode);
+            const scopeMatches = s.type !== 'PAGE' && nodeMatches(s as SceneNode);
             if (scopeMatches) {
               // Fast path: without flags, only include visible nodes
               let shouldInclude = false;
@@ -1350,12 +3718,8 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
               // Continue to next scope; skip deep scans when direct-only
               continue;
             }
-            if (searchType === 'SECTION' || searchType === 'FRAME' || searchType === 'INSTANCE' || searchType === 'COMPONENT') {
-              const types =
-                searchType === 'SECTION'   ? ['SECTION'] :
-                searchType === 'FRAME'     ? ['FRAME','GROUP'] :
-                searchType === 'INSTANCE'  ? ['INSTANCE'] :
-                                             ['COMPONENT','COMPONENT_SET'];
+            if (POOL_TYPES[searchType]) {
+              const types = POOL_TYPES[searchType];
 
               // Use name-aware traversal when quoted to ensure literal matches; otherwise use cached pool
               const hasQuoted = searchName.indexOf('"') !== -1;
@@ -1368,7 +3732,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                 const n = pool[idx];
                 if (SEARCH_CANCELLED) break;
                 if (fastMode && !n.visible) continue;
-                if (matchesName(n as SceneNode, searchName)) {
+                if (nodeMatches(n as SceneNode)) {
                   // Determine inclusion based on visibility and flags
                   let shouldInclude = true;
                   if (!fastMode) {
@@ -1449,12 +3813,14 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
         currentScope = rootResults.map(r => r.node);
       }
     } else {
+      if (usesMainComponentFilter(searchName)) await primeMainComponents(currentScope, modifiers);
+      if (usesStyleFilter(searchName)) await primeStyleNames(currentScope, modifiers);
+      if (usesHasFilter(searchName)) await primeHasFilters(currentScope, searchType, searchName, modifiers);
       // Special handling for per-scope pick (--fe or inline --#e) on this part when it is the final part
       if (!modifiers?.firstMatch && ((modifiers?.firstMatchEach && isLastPart) || (inlineIdxEach !== null))) {
         const perScope: SearchResult[] = [];
-        const gate = gateFor(searchType);
 
-        const indexToPick = (inlineIdxEach ?? 1);
+        const indexToPick = (inlineIdxEach ?? FIRST_INDEX);
 
         for (const parent of currentScope) {
           if (SEARCH_CANCELLED) break;
@@ -1466,10 +3832,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
               for (const ch of children) {
                 if (SEARCH_CANCELLED) break;
                 if (!modifiers?.allLayers && !modifiers?.hiddenOnly && !ch.visible) continue;
-                if (searchType === 'SHAPE' && gateImage(ch)) continue;
-                if (searchType === 'IMAGE' && !gateImage(ch)) continue;
-                if (!gate(ch)) continue;
-                if (!nameMatches(ch.name || '')) continue;
+                if (!nodeMatches(ch)) continue;
                 if (modifiers?.hiddenOnly && ch.visible) continue;
                 matches.push(ch);
               }
@@ -1477,12 +3840,9 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
           } else {
             // Collect all matches within this scope (respecting visibility flags similarly to findFirstMatchInScope)
             const fastMode = !(modifiers?.hiddenOnly || modifiers?.allLayers);
-            const pool = (parent as any).findAll((n: SceneNode) => {
+            const pool = findAllWithinDepth(parent as ChildrenMixin, (n: SceneNode) => {
               if (fastMode && !n.visible) return false;
-              if (searchType === 'SHAPE' && gateImage(n)) return false;
-              if (searchType === 'IMAGE' && !gateImage(n)) return false;
-              if (!gate(n)) return false;
-              if (!nameMatches(n.name || '')) return false;
+              if (!nodeMatches(n)) return false;
               if (modifiers?.hiddenOnly && n.visible) return false;
               return true;
             }) as SceneNode[];
@@ -1490,8 +3850,8 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
           }
 
           if (matches.length) {
-            // Always prioritize visual (XY) order; layer order only breaks ties
-            const rowCmp = buildRowComparator(matches);
+            // Always prioritize the pick order (visual XY order unless --order); layer order only breaks ties
+            const rowCmp = buildOrderComparator(matches);
             const sorted = matches.slice().sort((x, y) => {
               const r = rowCmp(x, y);
               if (r !== 0) return r;
@@ -1503,9 +3863,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
               // Non Auto Layout: fall back to paint order only when positions tie
               return compareZFirstWithinScope(parent, x, y);
             });
-            const idxE2 = (indexToPick === 0 ? sorted.length : indexToPick);
-            const pick = sorted[Math.max(0, idxE2 - 1)] || null;
-            if (pick) {
+            for (const pick of pickIndexed(sorted, indexToPick)) {
               const sym =
                 searchType === 'IMAGE' ? '&' :
                 searchType === 'SHAPE' ? '%' :
@@ -1524,7 +3882,6 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
       } else {
         // Inline global index on a non-root part: pick Nth overall across all current scopes and continue
         if (inlineIdxGlobal !== null) {
-          const gate = gateFor(searchType);
           const all: SceneNode[] = [];
           for (const parent of currentScope) {
             if (SEARCH_CANCELLED) break;
@@ -1534,44 +3891,33 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
                 for (const ch of children) {
                   if (SEARCH_CANCELLED) break;
                   if (!modifiers?.allLayers && !modifiers?.hiddenOnly && !ch.visible) continue;
-                  if (searchType === 'SHAPE' && gateImage(ch)) continue;
-                  if (searchType === 'IMAGE' && !gateImage(ch)) continue;
-                  if (!gate(ch)) continue;
-                  if (!nameMatches(ch.name || '')) continue;
+                  if (!nodeMatches(ch)) continue;
                   all.push(ch);
                 }
               }
             } else {
               const fastModeLocal = !(modifiers?.hiddenOnly || modifiers?.allLayers);
-              const pool = (parent as any).findAll((n: SceneNode) => {
+              const pool = findAllWithinDepth(parent as ChildrenMixin, (n: SceneNode) => {
                 if (fastModeLocal && !n.visible) return false;
-                if (searchType === 'SHAPE' && gateImage(n)) return false;
-                if (searchType === 'IMAGE' && !gateImage(n)) return false;
-                if (!gate(n)) return false;
-                if (!nameMatches(n.name || '')) return false;
+                if (!nodeMatches(n)) return false;
                 return true;
               }) as SceneNode[];
               all.push(...pool);
             }
           }
-          if (all.length) {
-            const sorted = all.slice().sort(buildRowComparator(all));
-            const idxG = (inlineIdxGlobal === 0 ? sorted.length : inlineIdxGlobal);
-            const pick = sorted[Math.max(0, idxG - 1)] || null;
-            if (pick) {
-              results = [{ node: pick, path: `${getNodePath(pick)}` }];
-              currentScope = [pick];
-              continue;
-            }
-          }
+          // An index that picks nothing leaves nothing, rather than falling back to every match
+          const picks = pickIndexed(all.slice().sort(buildOrderComparator(all)), inlineIdxGlobal);
+          results = picks.map(pick => ({ node: pick, path: `${getNodePath(pick)}` }));
+          currentScope = picks;
+          continue;
         }
         const childResults: SearchResult[] = [];
         for (const parent of currentScope) {
           if (SEARCH_CANCELLED) break;
           const kids = await searchChildren(
             parent,
-            (part === '' ? 'ANY' : searchType),
-            (part === '' ? '' : searchName),
+            (partInfo.part === '' ? 'ANY' : searchType),
+            (partInfo.part === '' ? '' : searchName),
             stopThisPart || stopThisPartEach,
             modifiers,
             isDirectChild,
@@ -1594,6 +3940,11 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
     if (currentScope.length === 0) break;
   }
 
+  DEPTH_BOUND = null;
+
+  // With --order the results, and so the selection, come back in that order
+  if (modifiers?.order && results.length > 1) results = sortResults(results);
+
   // Cache results for performance on future searches
   // Only cache fast-mode (no flags) results to avoid polluting cache with large hidden-inclusive traversals
   if (isFastMode) {
@@ -1613,7 +3964,7 @@ async function performSearch(query: string, movedToPage: boolean = false, modifi
     const selectable = results
       .map(r => r.node)
       .filter(node => 'id' in node && node.type !== 'PAGE') as SceneNode[];
-    const sorted = selectable.slice().sort(buildRowComparator(selectable));
+    const sorted = selectable.slice().sort(buildOrderComparator(selectable));
     const idxG = ((modifiers!.indexPick as number) === 0 ? sorted.length : (modifiers!.indexPick as number));
     const pick = sorted[Math.max(0, idxG - 1)] || null;
     if (pick) {
@@ -1632,16 +3983,12 @@ function findFirstMatchInScope(
   name: string,
   modifiers?: SearchModifiers
 ): SceneNode | null {
-  const gate = gateFor(type);
-  const q = name.toLowerCase();
+  const nodeMatches = buildNodeMatcher(type, name);
   const fastMode = !(modifiers?.hiddenOnly || modifiers?.allLayers);
   // Use built-in findAll for fast enumeration, then pick first
-  const pool = (scope as any).findAll((n: SceneNode) => {
+  const pool = findAllWithinDepth(scope, (n: SceneNode) => {
     if (fastMode && !n.visible) return false;
-    if (type === 'SHAPE' && gateImage(n)) return false;
-    if (type === 'IMAGE' && !gateImage(n)) return false;
-    if (!gate(n)) return false;
-    if (((n.name || '').toLowerCase().indexOf(q) === -1)) return false;
+    if (!nodeMatches(n)) return false;
     if (modifiers?.hiddenOnly && n.visible) return false; // final-part filter for --h per scope-first
     return true;
   }) as SceneNode[];
@@ -1656,6 +4003,8 @@ function findFirstMatchInScope(
  * @returns The search type (PAGE, SECTION, FRAME, etc.)
  */
 function getSearchType(part: string): string {
+  const qualifier = readTypeQualifier(part);
+  if (qualifier) return TYPE_QUALIFIERS[qualifier.toLowerCase()];
   const c = (part.trim()[0] || '');
   if (c === '#') return 'PAGE';
   if (c === '$') return 'SECTION';
@@ -1674,8 +4023,10 @@ function getSearchType(part: string): string {
  * @returns The name without the prefix symbol
  */
 function getSearchName(part: string): string {
+  const qualifier = readTypeQualifier(part);
+  if (qualifier) return part.trim().substring(qualifier.length).trim();
   const c = (part.trim()[0] || '');
-  return (['#','$','@','&','%','=','!','?'].indexOf(c) !== -1 ? part.substring(1) : part).trim();
+  return (TYPE_SYMBOLS.indexOf(c) !== -1 ? part.substring(1) : part).trim();
 }
 
 /**
@@ -1692,8 +4043,9 @@ async function searchAtRoot(type: string, name: string, modifiers?: SearchModifi
   if (type === 'PAGE') {
     // Search through all pages in the document
     const pages = figma.root.children;
+    const pageMatches = buildPageMatcher(name);
     for (const page of pages) {
-      if (nameMatches(page.name)) {
+      if (pageMatches(page)) {
         results.push({ node: page, path: `#${page.name}` });
       }
     }
@@ -1727,21 +4079,17 @@ async function searchAtRoot(type: string, name: string, modifiers?: SearchModifi
 async function searchInPage(page: PageNode, type: string, name: string, modifiers?: SearchModifiers): Promise<SearchResult[]> {
   const results: SearchResult[] = [];
   const hasQuoted = name.indexOf('"') !== -1;
-  const nameMatchesFn = buildNameMatcher(name);
+  const nodeMatches = buildNodeMatcher(type, name);
 
-  if (type === 'SECTION' || type === 'FRAME' || type === 'INSTANCE' || type === 'COMPONENT') {
-    const types =
-      type === 'SECTION'   ? ['SECTION'] :
-      type === 'FRAME'     ? ['FRAME','GROUP'] :
-      type === 'INSTANCE'  ? ['INSTANCE'] :
-      /* COMPONENT */        ['COMPONENT','COMPONENT_SET'];
+  if (POOL_TYPES[type]) {
+    const types = POOL_TYPES[type];
 
     const fastMode = !(modifiers?.hiddenOnly || modifiers?.allLayers);
     const pool = hasQuoted
       ? findMatchingDeep(page as any, type, name, !!(modifiers?.hiddenOnly || modifiers?.allLayers))
       : getCachedTypePool(page as any, types, fastMode);
     for (const n of pool as any) {
-      if (nameMatchesFn((n as SceneNode).name || '')) {
+      if (nodeMatches(n as SceneNode)) {
         // Respect visibility flags similar to other code paths
         let shouldInclude = false;
         const isVisible = n.visible;
@@ -1776,14 +4124,11 @@ async function searchInPage(page: PageNode, type: string, name: string, modifier
   }
 
   // For IMAGE, SHAPE, and ANY types, use gated walk
-  const gate = gateFor(type);
   const fastMode = !(modifiers?.hiddenOnly || modifiers?.allLayers);
   await walk(page, (n) => {
     if (fastMode && !n.visible) return true; // prune hidden early in fast mode
-    if (type === 'SHAPE' && gateImage(n)) return true;
-    if (type === 'IMAGE' && !gateImage(n)) return true;
 
-    if (gate(n) && nameMatchesFn(n.name || '')) {
+    if (nodeMatches(n)) {
       const sym =
         type === 'IMAGE' ? '&' :
         type === 'SHAPE' ? '%' :
@@ -1837,13 +4182,10 @@ async function searchChildren(parent: SceneNode|PageNode|SectionNode, type: stri
     }
 
     // Optimized path for non-direct child searches of common types
+    const nodeMatches = buildNodeMatcher(type, name);
     const fastMode = !(modifiers?.hiddenOnly || modifiers?.allLayers);
-    if (!isDirectChild && (type === 'SECTION' || type === 'FRAME' || type === 'INSTANCE' || type === 'COMPONENT')) {
-      const types =
-        type === 'SECTION'   ? ['SECTION'] :
-        type === 'FRAME'     ? ['FRAME','GROUP'] :
-        type === 'INSTANCE'  ? ['INSTANCE'] :
-                               ['COMPONENT','COMPONENT_SET'];
+    if (!isDirectChild && POOL_TYPES[type]) {
+      const types = POOL_TYPES[type];
 
     const hasQuoted = name.indexOf('"') !== -1;
     const pool = hasQuoted
@@ -1854,7 +4196,7 @@ async function searchChildren(parent: SceneNode|PageNode|SectionNode, type: stri
         const n = pool[idx];
         if (SEARCH_CANCELLED) break;
         if (fastMode && !isEffectivelyVisible(n)) continue;
-      if (matchesName(n as SceneNode, name)) {
+      if (nodeMatches(n as SceneNode)) {
           // Determine inclusion based on visibility and flags
           let shouldInclude = true;
           if (!fastMode) {
@@ -1922,7 +4264,7 @@ async function searchNodesRecursive(
   isDirectChild: boolean = false,
   isFinalPart: boolean = false
 ): Promise<void> {
-  const gate = gateFor(type);
+  const nodeMatches = buildNodeMatcher(type, name);
   let foundInThisScope = false;
   
   if (isDirectChild) {
@@ -1935,10 +4277,7 @@ async function searchNodesRecursive(
         // Apply visibility filters
         if (!modifiers?.allLayers && !modifiers?.hiddenOnly && !child.visible) continue;
         
-        if (type === 'SHAPE' && gateImage(child)) continue;
-        if (type === 'IMAGE' && !gateImage(child)) continue;
-        
-        const isMatch = gate(child) && matchesName(child, name);
+        const isMatch = nodeMatches(child);
         // Apply --h constraint only to final part when checking matches
         if (isMatch && isFinalPart && modifiers?.hiddenOnly && child.visible) continue;
         if (isMatch) {
@@ -1972,10 +4311,7 @@ async function searchNodesRecursive(
   } else {
     // Use the existing recursive walk for deep searches
     await walk(node, (n) => {
-    if (type === 'SHAPE' && gateImage(n)) return true;
-    if (type === 'IMAGE' && !gateImage(n)) return true;
-
-    const isMatch = gate(n) && matchesName(n, name);
+    const isMatch = nodeMatches(n);
     // Apply --h constraint only to final part when checking matches
     if (isMatch && isFinalPart && modifiers?.hiddenOnly && n.visible) return true; // Skip this match but continue searching
     if (isMatch) {
@@ -2022,6 +4358,9 @@ function getNodePath(node: SceneNode | PageNode | SectionNode): string {
     else if (current.type === 'INSTANCE') symbol = '!';
     else if (current.type === 'COMPONENT') symbol = '?';
     else if (current.type === 'TEXT') symbol = '=';
+    else if (current.type === 'GROUP') symbol = '@:group ';
+    else if (current.type === 'VECTOR') symbol = '%:vector ';
+    else if (current.type === 'BOOLEAN_OPERATION') symbol = '%:bool ';
     
     if (symbol) {
       parts.unshift(`${symbol}${current.name}`);